@@ -1,95 +1,232 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useWindowSize } from './hooks/useWindowSize';
-import { NumberRow } from './components/NumberRow';
+import { useSonification } from './hooks/useSonification';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useStepClock } from './hooks/useStepClock';
+import { useControlApi } from './hooks/useControlApi';
 import { ControlBar } from './components/ControlBar';
-import { TailType } from './types';
+import { OscillatorView } from './components/OscillatorView';
+import { PresetPanel } from './components/PresetPanel';
+import { EventLog } from './components/EventLog';
+import { SoundPanel } from './components/SoundPanel';
+import { ExportDialog } from './components/ExportDialog';
+import { SnapshotDialog } from './components/SnapshotDialog';
+import { BookmarkPanel } from './components/BookmarkPanel';
+import { CommandPalette } from './components/CommandPalette';
+import { ShortcutHelp } from './components/ShortcutHelp';
+import { EasingConfig, EasingPanel } from './components/EasingPanel';
+import { TailPanel } from './components/TailPanel';
+import { PalettePanel } from './components/PalettePanel';
+import { SyncConfig, SyncPanel } from './components/SyncPanel';
+import { AnalysisPanel } from './components/AnalysisPanel';
+import { OverlayPanel } from './components/OverlayPanel';
+import { MotionConfig, MotionPanel } from './components/MotionPanel';
+import {
+  DEFAULT_CONFIG,
+  EASING_TYPES,
+  LAYOUT_MODES,
+  MAX_RATIONAL_DENOMINATOR,
+  MAX_WRAP_MODULUS,
+  MOTION_MODELS,
+  PALETTES,
+  SEQUENCE_SOURCES,
+  SYNC_MODES,
+  TAIL_STYLES,
+  VIEW_MODES,
+} from './constants';
+import { getMaxRowCount, sanitizeConfig } from './utils/config';
+import { buildPermalink, parseConfig, serializeConfig } from './utils/permalink';
+import {
+  detectTriggerEvents,
+  getAlignmentPeriod,
+  getNextAlignment,
+  getPreviousAlignment,
+} from './utils/events';
+import { formatMovementValue, getMovementValues, parseCustomSequence } from './utils/sequences';
+import { DEFAULT_SONIFICATION } from './utils/audio';
+import { addBookmark, loadBookmarks, saveBookmarks } from './utils/bookmarks';
+import { formatStepRate, scaleSpeed, sliderPositionToSpeed, speedToSliderPosition } from './utils/timeline';
+import { loadKeymap, pruneKeymap, saveKeymap } from './utils/keymap';
+import { getNextHighlyComposite, getPreviousHighlyComposite } from './utils/numberTheory';
+import { getRowEasings } from './utils/easing';
+import { loadCustomTails, resolveTailStyle, saveCustomTails } from './utils/tails';
+import { getRowColors, loadCustomPalettes, resolvePalette, saveCustomPalettes } from './utils/palette';
+import { SyncClock, getTapTempo, recordTap, systemClock } from './utils/syncClock';
+import { parseAllowedOrigins } from './utils/controlApi';
+import { recordActiveRows } from './utils/analysis';
+import { DEFAULT_OVERLAYS, OVERLAY_TOGGLES } from './utils/overlays';
+import { DEFAULT_VIEW, ZOOM_STEP, isDefaultView, zoomView } from './utils/view';
+import {
+  BezierCurve,
+  Bookmark,
+  Command,
+  EasingType,
+  Keymap,
+  LayoutMode,
+  MotionModel,
+  OscillatorConfig,
+  OverlaySettings,
+  PaletteDefinition,
+  SequenceSource,
+  SonificationSettings,
+  SyncMode,
+  TailStyle,
+  TailType,
+  TriggerEvent,
+  ViewMode,
+  ViewTransform,
+} from './types';
+import { getActiveRowIndex } from './utils/kinematics';
 import { 
   Gauge, 
   Hash, 
   Target, 
   Brush, 
   Settings2, 
-  Palette, 
-  Clock, 
-  MousePointer2, 
   Maximize, 
   Minimize,
-  Wind
+  Box,
+  Square,
+  Grid3x3,
+  Link,
+  Check,
+  ListOrdered,
+  Film,
+  Camera,
+  Keyboard,
+  Rows3,
+  Columns3,
+  CircleDot,
+  ZoomIn,
+  ZoomOut,
+  Scan
 } from 'lucide-react';
 
-const PALETTES = [
-  { id: 'harmonic', name: 'Harmonic', color: '#6366f1' },
-  { id: 'neon', name: 'Neon', color: '#f472b6' },
-  { id: 'forest', name: 'Forest', color: '#2dd4bf' },
-  { id: 'gold', name: 'Gold', color: '#fbbf24' },
-  { id: 'monochrome', name: 'Mono', color: '#9ca3af' },
-];
-
-const TAIL_TYPES: { id: TailType; name: string }[] = [
-  { id: 'classic', name: 'Classic' },
-  { id: 'ghost', name: 'Ghost' },
-  { id: 'echo', name: 'Echo' },
-  { id: 'stepped', name: 'Stepped' },
-  { id: 'glitch', name: 'Glitch' },
-];
-
-type SyncMode = 'manual' | 'seconds' | 'ms';
-
-const App: React.FC = () => {
+// Number of trigger events kept in the event log
+const MAX_LOGGED_EVENTS = 200;
+// Steps jumped by the seek shortcuts
+const SEEK_STEPS = 100;
+// Origins other than our own that may script the app over postMessage (set at build time)
+const CONTROL_ALLOWED_ORIGINS = parseAllowedOrigins(process.env.CONTROL_ORIGINS);
+
+type ConfigSetters = { [K in keyof OscillatorConfig]: (value: OscillatorConfig[K]) => void };
+
+const CONFIG_KEYS = Object.keys(DEFAULT_CONFIG) as (keyof OscillatorConfig)[];
+
+const setConfigField = <K extends keyof OscillatorConfig>(setters: ConfigSetters, key: K, config: OscillatorConfig) => {
+  setters[key](config[key]);
+};
+
+interface AppProps {
+  clock?: SyncClock; // Drives the clock-based sync modes
+}
+
+const App: React.FC<AppProps> = ({ clock = systemClock }) => {
   const { height, width } = useWindowSize();
-  const [currentStep, setCurrentStep] = useState<number>(0);
+  const [initialConfig] = useState<OscillatorConfig>(() => parseConfig(window.location.search));
+  const [currentStep, setCurrentStep] = useState<number>(initialConfig.currentStep);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
-  const [shouldWrap, setShouldWrap] = useState<boolean>(true);
-  const [isTailEnabled, setIsTailEnabled] = useState<boolean>(true);
-  const [tailType, setTailType] = useState<TailType>('classic');
-  const [isFollowEnabled, setIsFollowEnabled] = useState<boolean>(true);
-  const [speedMultiplier, setSpeedMultiplier] = useState<number>(0.01);
-  const [rowCount, setRowCount] = useState<number>(15);
-  const [colorPalette, setColorPalette] = useState<string>('harmonic');
-  const [syncMode, setSyncMode] = useState<SyncMode>('manual');
+  const [shouldWrap, setShouldWrap] = useState<boolean>(initialConfig.shouldWrap);
+  const [wrapModulus, setWrapModulus] = useState<number>(initialConfig.wrapModulus);
+  const [isTailEnabled, setIsTailEnabled] = useState<boolean>(initialConfig.isTailEnabled);
+  const [tailType, setTailType] = useState<TailType>(initialConfig.tailType);
+  const [isFollowEnabled, setIsFollowEnabled] = useState<boolean>(initialConfig.isFollowEnabled);
+  const [speedMultiplier, setSpeedMultiplier] = useState<number>(initialConfig.speedMultiplier);
+  const [rowCount, setRowCount] = useState<number>(initialConfig.rowCount);
+  const [colorPalette, setColorPalette] = useState<string>(initialConfig.colorPalette);
+  const [syncMode, setSyncMode] = useState<SyncMode>(initialConfig.syncMode);
+  const [bpm, setBpm] = useState<number>(initialConfig.bpm);
+  const [stepsPerSecond, setStepsPerSecond] = useState<number>(initialConfig.stepsPerSecond);
+  const [syncEpoch, setSyncEpoch] = useState<number>(initialConfig.syncEpoch);
   const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
+  const [viewMode, setViewMode] = useState<ViewMode>(initialConfig.viewMode);
+  const [sequenceSource, setSequenceSource] = useState<SequenceSource>(initialConfig.sequenceSource);
+  const [customSequence, setCustomSequence] = useState<string>(initialConfig.customSequence);
+  const [rationalDenominator, setRationalDenominator] = useState<number>(initialConfig.rationalDenominator);
+  const [easingType, setEasingType] = useState<EasingType>(initialConfig.easingType);
+  const [bezierCurve, setBezierCurve] = useState<BezierCurve>(initialConfig.bezierCurve);
+  const [transitionWidth, setTransitionWidth] = useState<number>(initialConfig.transitionWidth);
+  const [rowTransitionWidths, setRowTransitionWidths] = useState<Record<number, number>>(initialConfig.rowTransitionWidths);
+  const [rowColors, setRowColors] = useState<Record<number, string>>(initialConfig.rowColors);
+  const [motionModel, setMotionModel] = useState<MotionModel>(initialConfig.motionModel);
+  const [motionAmplitude, setMotionAmplitude] = useState<number>(initialConfig.motionAmplitude);
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>(initialConfig.layoutMode);
+  const [isLinkCopied, setIsLinkCopied] = useState<boolean>(false);
+  const [isExportOpen, setIsExportOpen] = useState<boolean>(false);
+  const [isSnapshotOpen, setIsSnapshotOpen] = useState<boolean>(false);
+  const [alignmentRows, setAlignmentRows] = useState<number[] | null>(null);
+  const [eventLog, setEventLog] = useState<TriggerEvent[]>([]);
+  const [activeHistogram, setActiveHistogram] = useState<number[]>([]);
+  const [isAnalysisOpen, setIsAnalysisOpen] = useState<boolean>(false);
+  const [sonification, setSonification] = useState<SonificationSettings>(DEFAULT_SONIFICATION);
+  const [overlays, setOverlays] = useState<OverlaySettings>(DEFAULT_OVERLAYS);
+  const [view, setView] = useState<ViewTransform>(DEFAULT_VIEW);
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>(() => loadBookmarks());
+  const [keymap, setKeymap] = useState<Keymap>(() => loadKeymap());
+  const [customTails, setCustomTails] = useState<TailStyle[]>(() => loadCustomTails());
+  const [tailDraft, setTailDraft] = useState<TailStyle | null>(null);
+  const [customPalettes, setCustomPalettes] = useState<PaletteDefinition[]>(() => loadCustomPalettes());
+  const [paletteDraft, setPaletteDraft] = useState<PaletteDefinition | null>(null);
+  const [isPaletteOpen, setIsPaletteOpen] = useState<boolean>(false);
+  const [isHelpOpen, setIsHelpOpen] = useState<boolean>(false);
   
-  const animationFrameRef = useRef<number | null>(null);
-  const lastTimeRef = useRef<number | null>(null);
+  const previousStepRef = useRef<number>(initialConfig.currentStep);
+  // Latest N, for callbacks that stay stable while N changes every frame
+  const currentStepRef = useRef<number>(currentStep);
+  currentStepRef.current = currentStep;
+  const tapTimesRef = useRef<number[]>([]);
 
-  const totalSlots = useMemo(() => rowCount + 1, [rowCount]);
-  const actualItemSize = useMemo(() => height / totalSlots, [height, totalSlots]);
-  
-  const animate = useCallback((time: number) => {
-    if (syncMode !== 'manual') {
-      const now = Date.now();
-      if (syncMode === 'seconds') {
-        setCurrentStep(now / 1000);
-      } else {
-        setCurrentStep(now);
-      }
-    } else if (isPlaying && lastTimeRef.current !== null) {
-      const deltaTime = time - lastTimeRef.current;
-      setCurrentStep((prev) => prev + (deltaTime * speedMultiplier)); 
-    }
-    lastTimeRef.current = time;
-    animationFrameRef.current = requestAnimationFrame(animate);
-  }, [isPlaying, speedMultiplier, syncMode]);
+  const maxRowCount = getMaxRowCount(viewMode);
+
+  const movementValues = useMemo(() => {
+    return getMovementValues(sequenceSource, rowCount, customSequence, rationalDenominator);
+  }, [sequenceSource, rowCount, customSequence, rationalDenominator]);
+
+  const invalidSequenceTokens = useMemo(() => {
+    return sequenceSource === 'custom' ? parseCustomSequence(customSequence).invalidTokens : [];
+  }, [sequenceSource, customSequence]);
 
+  const rowEasings = useMemo(() => {
+    return getRowEasings(movementValues.length, easingType, bezierCurve, transitionWidth, rowTransitionWidths);
+  }, [movementValues, easingType, bezierCurve, transitionWidth, rowTransitionWidths]);
+
+  const motion = useMemo(() => {
+    return { model: motionModel, amplitude: motionAmplitude };
+  }, [motionModel, motionAmplitude]);
+
+  // The style being edited previews live in place of the selected one
+  const tailStyle = useMemo(() => {
+    return tailDraft ?? resolveTailStyle(tailType, customTails);
+  }, [tailDraft, tailType, customTails]);
+
+  const palette = useMemo(() => {
+    return paletteDraft ?? resolvePalette(colorPalette, customPalettes);
+  }, [paletteDraft, colorPalette, customPalettes]);
+
+  const rowColorList = useMemo(() => {
+    return getRowColors(movementValues, palette, rowColors);
+  }, [movementValues, palette, rowColors]);
+
+  // App re-renders on every animation frame while N moves, so the settings
+  // panels are memoized and take only the props they draw
+  useStepClock(currentStep, setCurrentStep, { isPlaying, speedMultiplier, syncMode, bpm, stepsPerSecond, syncEpoch }, clock);
+
+  // Reverse playback stops once it reaches N = 0
   useEffect(() => {
-    const shouldBeRunning = (syncMode !== 'manual') || isPlaying;
-    
-    if (shouldBeRunning) {
-      lastTimeRef.current = performance.now();
-      animationFrameRef.current = requestAnimationFrame(animate);
-    } else {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-      lastTimeRef.current = null;
-    }
+    if (isPlaying && speedMultiplier < 0 && currentStep <= 0) setIsPlaying(false);
+  }, [isPlaying, speedMultiplier, currentStep]);
 
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-    };
-  }, [isPlaying, animate, syncMode]);
+  useEffect(() => {
+    saveBookmarks(bookmarks);
+  }, [bookmarks]);
+
+  useEffect(() => {
+    saveCustomTails(customTails);
+  }, [customTails]);
+
+  useEffect(() => {
+    saveCustomPalettes(customPalettes);
+  }, [customPalettes]);
 
   useEffect(() => {
     const handleFullscreenChange = () => {
@@ -99,6 +236,145 @@ const App: React.FC = () => {
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
 
+  const config = useMemo<OscillatorConfig>(() => ({
+    currentStep,
+    rowCount,
+    speedMultiplier,
+    syncMode,
+    bpm,
+    stepsPerSecond,
+    syncEpoch,
+    colorPalette,
+    tailType,
+    isFollowEnabled,
+    isTailEnabled,
+    shouldWrap,
+    wrapModulus,
+    viewMode,
+    sequenceSource,
+    customSequence,
+    rationalDenominator,
+    easingType,
+    bezierCurve,
+    transitionWidth,
+    rowTransitionWidths,
+    rowColors,
+    motionModel,
+    motionAmplitude,
+    layoutMode,
+  }), [currentStep, rowCount, speedMultiplier, syncMode, bpm, stepsPerSecond, syncEpoch, colorPalette, tailType, isFollowEnabled, isTailEnabled, shouldWrap, wrapModulus, viewMode, sequenceSource, customSequence, rationalDenominator, easingType, bezierCurve, transitionWidth, rowTransitionWidths, rowColors, motionModel, motionAmplitude, layoutMode]);
+
+  // Latest config, read on demand by panels that should not re-render with N
+  const configRef = useRef<OscillatorConfig>(config);
+  configRef.current = config;
+  const getConfig = useCallback(() => configRef.current, []);
+
+  const isRunning = isPlaying || syncMode !== 'manual';
+  useSonification(currentStep, movementValues, isRunning, sonification);
+
+  // Keep the address bar restorable; N is only written while the clock is stopped
+  const urlSearch = useMemo(() => {
+    return isRunning ? null : serializeConfig(config);
+  }, [isRunning, config]);
+
+  useEffect(() => {
+    if (urlSearch === null) return;
+    const url = new URL(window.location.href);
+    url.search = urlSearch;
+    window.history.replaceState(null, '', url.toString());
+  }, [urlSearch]);
+
+  useEffect(() => {
+    if (!isLinkCopied) return;
+    const timeout = window.setTimeout(() => setIsLinkCopied(false), 1500);
+    return () => window.clearTimeout(timeout);
+  }, [isLinkCopied]);
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(buildPermalink(config))
+      .then(() => setIsLinkCopied(true))
+      .catch((err) => {
+        console.error(`Error copying link: ${err.message}`);
+      });
+  };
+
+  // Setter of each configuration field, so a patch can update just its own fields
+  const configSetters = useMemo<ConfigSetters>(() => ({
+    currentStep: setCurrentStep,
+    rowCount: setRowCount,
+    speedMultiplier: setSpeedMultiplier,
+    syncMode: setSyncMode,
+    bpm: setBpm,
+    stepsPerSecond: setStepsPerSecond,
+    syncEpoch: setSyncEpoch,
+    colorPalette: setColorPalette,
+    tailType: setTailType,
+    isFollowEnabled: setIsFollowEnabled,
+    isTailEnabled: setIsTailEnabled,
+    shouldWrap: setShouldWrap,
+    wrapModulus: setWrapModulus,
+    viewMode: setViewMode,
+    sequenceSource: setSequenceSource,
+    customSequence: setCustomSequence,
+    rationalDenominator: setRationalDenominator,
+    easingType: setEasingType,
+    bezierCurve: setBezierCurve,
+    transitionWidth: setTransitionWidth,
+    rowTransitionWidths: setRowTransitionWidths,
+    rowColors: setRowColors,
+    motionModel: setMotionModel,
+    motionAmplitude: setMotionAmplitude,
+    layoutMode: setLayoutMode,
+  }), []);
+
+  const applyConfig = useCallback((next: OscillatorConfig) => {
+    setIsPlaying(false);
+    CONFIG_KEYS.forEach((key) => setConfigField(configSetters, key, next));
+  }, [configSetters]);
+
+  // Scripted changes keep playback running, unlike applying a preset, and
+  // only touch the fields they name: N moves only when the patch sets it
+  const handleControlConfig = (patch: Partial<OscillatorConfig>) => {
+    const next = sanitizeConfig({ ...config, ...patch }, config);
+    CONFIG_KEYS.forEach((key) => {
+      if (key in patch) setConfigField(configSetters, key, next);
+    });
+  };
+
+  const handleEasingChange = useCallback((patch: Partial<EasingConfig>) => {
+    if (patch.easingType !== undefined) setEasingType(patch.easingType);
+    if (patch.bezierCurve !== undefined) setBezierCurve(patch.bezierCurve);
+    if (patch.transitionWidth !== undefined) setTransitionWidth(patch.transitionWidth);
+    if (patch.rowTransitionWidths !== undefined) setRowTransitionWidths(patch.rowTransitionWidths);
+  }, []);
+
+  const handleMotionChange = useCallback((patch: Partial<MotionConfig>) => {
+    if (patch.motionModel !== undefined) setMotionModel(patch.motionModel);
+    if (patch.motionAmplitude !== undefined) setMotionAmplitude(patch.motionAmplitude);
+  }, []);
+
+  const handleSyncChange = useCallback((patch: Partial<SyncConfig>) => {
+    if (patch.syncMode !== undefined) {
+      setSyncMode(patch.syncMode);
+      if (patch.syncMode !== 'manual') setIsPlaying(false);
+    }
+    if (patch.bpm !== undefined) setBpm(patch.bpm);
+    if (patch.stepsPerSecond !== undefined) setStepsPerSecond(patch.stepsPerSecond);
+    if (patch.syncEpoch !== undefined) setSyncEpoch(patch.syncEpoch);
+  }, []);
+
+  const handleTapTempo = useCallback(() => {
+    tapTimesRef.current = recordTap(tapTimesRef.current, clock.now());
+    const tempo = getTapTempo(tapTimesRef.current);
+    if (tempo !== null) setBpm(tempo);
+    setSyncMode('bpm');
+    setIsPlaying(false);
+  }, [clock]);
+
+  const handleSetEpochToNow = useCallback(() => {
+    setSyncEpoch(clock.now());
+  }, [clock]);
+
   const handlePlayPause = () => {
     if (syncMode !== 'manual') {
       setSyncMode('manual');
@@ -114,12 +390,41 @@ const App: React.FC = () => {
     setCurrentStep((prev) => Math.floor(prev) + 1);
   };
 
+  const handleStepBack = () => {
+    if (syncMode !== 'manual') setSyncMode('manual');
+    setIsPlaying(false);
+    setCurrentStep((prev) => Math.max(0, Math.ceil(prev) - 1));
+  };
+
   const handleReset = () => {
     setSyncMode('manual');
     setIsPlaying(false);
     setCurrentStep(0);
   };
 
+  const handleViewModeChange = (mode: ViewMode) => {
+    setViewMode(mode);
+    setRowCount((prev) => Math.min(prev, getMaxRowCount(mode)));
+  };
+
+  // The 3D camera and the rings always fit the whole view
+  const isViewAdjustable = viewMode !== '3d' && layoutMode !== 'polar';
+
+  const zoomBy = (factor: number) => {
+    const laneSpan = layoutMode === 'vertical' ? width : height;
+    setView((prev) => zoomView(prev, factor, { rowCount: movementValues.length, laneSpan }, laneSpan / 2));
+  };
+
+  // A dragged camera overrides follow mode until follow is turned back on
+  const toggleFollow = () => {
+    if (view.focus !== null) {
+      setView((prev) => ({ ...prev, focus: null }));
+      setIsFollowEnabled(true);
+      return;
+    }
+    setIsFollowEnabled(!isFollowEnabled);
+  };
+
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
       document.documentElement.requestFullscreen().catch((err) => {
@@ -131,132 +436,213 @@ const App: React.FC = () => {
   };
 
   const activeTurnIndex = useMemo(() => {
-    const N = Math.floor(currentStep);
-    if (N === 0) return -1;
-    for (let i = rowCount; i >= 1; i--) {
-       if (N % i === 0) return i;
-    }
-    return 0;
-  }, [currentStep, rowCount]);
-
-  const followerRows = useMemo(() => {
-    return Array.from({ length: rowCount }, (_, i) => i + 1);
-  }, [rowCount]);
-
-  const leaderXOffset = useMemo(() => {
-    const N = currentStep;
-    const v = 1; 
-    const curCount = Math.floor(N / v);
-    const nextTrig = (curCount + 1) * v;
-    const dist = nextTrig - N;
-    const transitionWidth = 0.5;
-    
-    let animatedCount = curCount;
-    if (dist < transitionWidth) {
-      const t = 1 - (dist / transitionWidth);
-      const easedT = t * t * (3 - 2 * t);
-      animatedCount = curCount + easedT;
-    }
+    return getActiveRowIndex(currentStep, movementValues);
+  }, [currentStep, movementValues]);
 
-    return animatedCount * actualItemSize;
-  }, [currentStep, actualItemSize]);
+  const alignmentPeriod = useMemo(() => {
+    const rows = (alignmentRows ?? movementValues.map((_, i) => i)).filter((i) => i < movementValues.length);
+    if (rows.length === 0) return null;
+    return getAlignmentPeriod(rows.map((i) => movementValues[i]));
+  }, [alignmentRows, movementValues]);
 
-  const focusX = useMemo(() => {
-    return isFollowEnabled ? leaderXOffset : 0;
-  }, [isFollowEnabled, leaderXOffset]);
+  const fullAlignmentPeriod = useMemo(() => getAlignmentPeriod(movementValues), [movementValues]);
 
-  const backgroundX = useMemo(() => {
-    if (!isFollowEnabled) return 0;
-    const rawOffset = (width / 2) - focusX - (actualItemSize / 2);
-    return ((rawOffset % actualItemSize) + actualItemSize) % actualItemSize;
-  }, [width, focusX, actualItemSize, isFollowEnabled]);
+  // Active row counts refer to row indices, so they restart with the rows
+  useEffect(() => {
+    setActiveHistogram([]);
+  }, [movementValues]);
+
+  const emitControlEvent = useControlApi({
+    getState: () => ({ n: currentStep, isPlaying: isPlaying && syncMode === 'manual', config }),
+    setN: (n) => seekTo(Math.max(0, n)),
+    play: () => {
+      setSyncMode('manual');
+      setIsPlaying(true);
+    },
+    pause: () => {
+      setSyncMode('manual');
+      setIsPlaying(false);
+    },
+    setSpeed: (speed) => handleControlConfig({ speedMultiplier: speed }),
+    setConfig: (patch) => handleControlConfig(patch),
+  }, CONTROL_ALLOWED_ORIGINS);
+
+  useEffect(() => {
+    const previousStep = previousStepRef.current;
+    previousStepRef.current = currentStep;
+    if (Math.floor(previousStep) !== Math.floor(currentStep)) emitControlEvent('step', { n: Math.floor(currentStep) });
+    const events = detectTriggerEvents(previousStep, currentStep, movementValues, alignmentPeriod);
+    if (events.length === 0) return;
+    events.forEach((event) => emitControlEvent('trigger', event));
+    setActiveHistogram((prev) => recordActiveRows(prev, events, movementValues));
+    setEventLog((prev) => [...events].reverse().concat(prev).slice(0, MAX_LOGGED_EVENTS));
+  }, [currentStep, movementValues, alignmentPeriod, emitControlEvent]);
+
+  const seekTo = useCallback((n: number) => {
+    setSyncMode('manual');
+    setIsPlaying(false);
+    setCurrentStep(n);
+  }, []);
 
-  const floatingNHorizontalPos = useMemo(() => {
-    if (isFollowEnabled) return width / 2;
-    return leaderXOffset + (actualItemSize / 2); 
-  }, [isFollowEnabled, width, leaderXOffset, actualItemSize]);
+  const handleToggleAnalysis = useCallback(() => setIsAnalysisOpen((prev) => !prev), []);
+
+  const handleResetHistogram = useCallback(() => setActiveHistogram([]), []);
+
+  const handleToggleAlignmentRow = useCallback((rowIndex: number) => {
+    setAlignmentRows((prev) => {
+      const selected = (prev ?? movementValues.map((_, i) => i)).filter((i) => i < movementValues.length);
+      const next = selected.includes(rowIndex)
+        ? selected.filter((i) => i !== rowIndex)
+        : [...selected, rowIndex].sort((a, b) => a - b);
+      return next.length === movementValues.length ? null : next;
+    });
+  }, [movementValues]);
+
+  const handleSelectAllAlignmentRows = useCallback(() => setAlignmentRows(null), []);
+
+  const handlePreviousAlignment = useCallback(() => {
+    if (alignmentPeriod !== null) seekTo(getPreviousAlignment(currentStepRef.current, alignmentPeriod));
+  }, [alignmentPeriod, seekTo]);
+
+  const handleNextAlignment = useCallback(() => {
+    if (alignmentPeriod !== null) seekTo(getNextAlignment(currentStepRef.current, alignmentPeriod));
+  }, [alignmentPeriod, seekTo]);
+
+  const handleClearEvents = useCallback(() => setEventLog([]), []);
+
+  const cycleOption = <T,>(options: readonly T[], current: T) => {
+    return options[(options.indexOf(current) + 1) % options.length];
+  };
+
+  const jumpTo = (n: number | null) => {
+    if (n !== null) seekTo(n);
+  };
+
+  // Every control action, for the keymap and the command palette
+  const commands: Command[] = [
+    { id: 'play-pause', name: 'Play / Pause', group: 'Playback', run: handlePlayPause },
+    { id: 'step-forward', name: 'Next Step', group: 'Playback', run: handleStep },
+    { id: 'step-back', name: 'Previous Step', group: 'Playback', run: handleStepBack },
+    { id: 'seek-forward', name: `Seek +${SEEK_STEPS}`, group: 'Playback', run: () => seekTo(Math.floor(currentStep) + SEEK_STEPS) },
+    { id: 'seek-back', name: `Seek -${SEEK_STEPS}`, group: 'Playback', run: () => seekTo(Math.max(0, Math.floor(currentStep) - SEEK_STEPS)) },
+    { id: 'reset', name: 'Reset', group: 'Playback', run: handleReset },
+    { id: 'speed-up', name: 'Faster', group: 'Playback', run: () => setSpeedMultiplier(scaleSpeed(speedMultiplier, 2)) },
+    { id: 'speed-down', name: 'Slower', group: 'Playback', run: () => setSpeedMultiplier(scaleSpeed(speedMultiplier, 0.5)) },
+    { id: 'reverse', name: 'Reverse Direction', group: 'Playback', run: () => setSpeedMultiplier(-speedMultiplier) },
+    ...SYNC_MODES.map((mode) => ({
+      id: `sync-${mode}`, name: `Sync: ${mode}`, group: 'Playback', run: () => handleSyncChange({ syncMode: mode }),
+    })),
+    { id: 'tap-tempo', name: 'Tap Tempo', group: 'Playback', run: handleTapTempo },
+    {
+      id: 'epoch-now', name: 'Start Epoch Now', group: 'Playback',
+      run: () => {
+        handleSetEpochToNow();
+        handleSyncChange({ syncMode: 'epoch' });
+      },
+    },
+    { id: 'next-alignment', name: 'Next Alignment', group: 'Navigate', run: handleNextAlignment },
+    { id: 'previous-alignment', name: 'Previous Alignment', group: 'Navigate', run: handlePreviousAlignment },
+    { id: 'next-highly-composite', name: 'Next Highly Composite', group: 'Navigate', run: () => jumpTo(getNextHighlyComposite(Math.floor(currentStep))) },
+    { id: 'previous-highly-composite', name: 'Previous Highly Composite', group: 'Navigate', run: () => jumpTo(getPreviousHighlyComposite(Math.floor(currentStep))) },
+    { id: 'add-bookmark', name: 'Bookmark Current N', group: 'Navigate', run: () => setBookmarks((prev) => addBookmark(prev, Math.floor(currentStep), '')) },
+    ...bookmarks.map((b) => ({
+      id: `bookmark-${b.id}`, name: `Go to ${b.n}${b.label ? ` (${b.label})` : ''}`, group: 'Navigate', run: () => seekTo(b.n),
+    })),
+    ...VIEW_MODES.map((mode) => ({ id: `view-${mode}`, name: `View: ${mode}`, group: 'View', run: () => handleViewModeChange(mode) })),
+    { id: 'cycle-view', name: 'Next View Mode', group: 'View', run: () => handleViewModeChange(cycleOption(VIEW_MODES, viewMode)) },
+    ...LAYOUT_MODES.map((l) => ({ id: `layout-${l.id}`, name: `Layout: ${l.name}`, group: 'View', run: () => setLayoutMode(l.id) })),
+    ...[...PALETTES, ...customPalettes].map((p, i) => ({
+      id: `palette-${i}`, name: `Palette: ${p.name}`, group: 'View',
+      run: () => {
+        setColorPalette(p.id);
+        setPaletteDraft(null);
+      },
+    })),
+    ...[...TAIL_STYLES, ...customTails].map((t) => ({
+      id: `tail-${t.id}`, name: `Tail: ${t.name}`, group: 'View',
+      run: () => {
+        setTailType(t.id);
+        setTailDraft(null);
+        setIsTailEnabled(true);
+      },
+    })),
+    {
+      id: 'cycle-tail', name: 'Next Tail Style', group: 'View',
+      run: () => {
+        setTailType(cycleOption([...TAIL_STYLES, ...customTails].map((t) => t.id), tailType));
+        setTailDraft(null);
+        setIsTailEnabled(true);
+      },
+    },
+    ...EASING_TYPES.map((e) => ({ id: `easing-${e.id}`, name: `Easing: ${e.name}`, group: 'View', run: () => setEasingType(e.id) })),
+    ...MOTION_MODELS.map((m) => ({ id: `motion-${m.id}`, name: `Motion: ${m.name}`, group: 'View', run: () => setMotionModel(m.id) })),
+    { id: 'toggle-tail', name: 'Toggle Tail', group: 'View', run: () => setIsTailEnabled(!isTailEnabled) },
+    { id: 'toggle-follow', name: 'Toggle Follow', group: 'View', run: toggleFollow },
+    { id: 'toggle-wrap', name: 'Toggle Wrap', group: 'View', run: () => setShouldWrap(!shouldWrap) },
+    { id: 'toggle-fullscreen', name: 'Toggle Fullscreen', group: 'View', run: toggleFullscreen },
+    { id: 'zoom-in', name: 'Zoom In', group: 'View', run: () => zoomBy(ZOOM_STEP) },
+    { id: 'zoom-out', name: 'Zoom Out', group: 'View', run: () => zoomBy(1 / ZOOM_STEP) },
+    { id: 'reset-view', name: 'Reset View', group: 'View', run: () => setView(DEFAULT_VIEW) },
+    { id: 'toggle-analysis', name: 'Toggle Analysis Panel', group: 'View', run: handleToggleAnalysis },
+    ...OVERLAY_TOGGLES.map((o) => ({
+      id: `overlay-${o.key}`, name: `Toggle Overlay: ${o.name}`, group: 'View',
+      run: () => setOverlays((prev) => ({ ...prev, [o.key]: !prev[o.key] })),
+    })),
+    ...SEQUENCE_SOURCES.map((q) => ({ id: `sequence-${q.id}`, name: `Sequence: ${q.name}`, group: 'Sequence', run: () => setSequenceSource(q.id) })),
+    { id: 'more-rows', name: 'Add Row', group: 'Sequence', run: () => setRowCount(Math.min(maxRowCount, rowCount + 1)) },
+    { id: 'fewer-rows', name: 'Remove Row', group: 'Sequence', run: () => setRowCount(Math.max(1, rowCount - 1)) },
+    { id: 'toggle-sound', name: 'Toggle Sound', group: 'App', run: () => setSonification((prev) => ({ ...prev, isEnabled: !prev.isEnabled })) },
+    { id: 'copy-link', name: 'Copy Link', group: 'App', run: handleCopyLink },
+    {
+      id: 'open-export', name: 'Export Frames', group: 'App',
+      run: () => {
+        setIsPlaying(false);
+        setIsExportOpen(true);
+      },
+    },
+    {
+      id: 'open-snapshot', name: 'Snapshot Frame', group: 'App',
+      run: () => {
+        setIsPlaying(false);
+        setIsSnapshotOpen(true);
+      },
+    },
+    { id: 'clear-events', name: 'Clear Event Log', group: 'App', run: handleClearEvents },
+    { id: 'open-palette', name: 'Command Palette', group: 'App', run: () => setIsPaletteOpen(true) },
+    { id: 'open-help', name: 'Keyboard Shortcuts', group: 'App', run: () => setIsHelpOpen(true) },
+  ];
+
+  // Saved on change rather than in an effect, so the defaults are never written on mount
+  const handleKeymapChange = (next: Keymap) => {
+    const pruned = pruneKeymap(next, commands.map((c) => c.id));
+    setKeymap(pruned);
+    saveKeymap(pruned);
+  };
+
+  useKeyboardShortcuts(keymap, commands, !isPaletteOpen && !isHelpOpen && !isExportOpen && !isSnapshotOpen);
 
   return (
-    <div className="relative w-full h-screen bg-[#070709] overflow-hidden select-none">
+    <div className="relative w-full h-screen bg-[#070709] overflow-hidden select-none touch-manipulation">
       
-      <div 
-        className="absolute top-0 bottom-0 opacity-[0.03] pointer-events-none will-change-transform"
-        style={{
-          left: `-${actualItemSize}px`,
-          right: `-${actualItemSize}px`,
-          backgroundImage: `linear-gradient(#fff 1px, transparent 1px), linear-gradient(90deg, #fff 1px, transparent 1px)`,
-          backgroundSize: `${actualItemSize}px ${actualItemSize}px`,
-          transform: `translateX(${backgroundX}px)`,
-        }}
+      <OscillatorView
+        viewMode={viewMode}
+        currentStep={currentStep}
+        movementValues={movementValues}
+        width={width}
+        height={height}
+        shouldWrap={shouldWrap}
+        wrapModulus={wrapModulus}
+        isFollowEnabled={isFollowEnabled}
+        isTailEnabled={isTailEnabled}
+        tailStyle={tailStyle}
+        rowColors={rowColorList}
+        rowEasings={rowEasings}
+        motion={motion}
+        layoutMode={layoutMode}
+        overlays={overlays}
+        view={view}
+        onViewChange={setView}
       />
-      
-      <div className="absolute top-0 left-0 w-96 h-96 bg-indigo-500/10 blur-[120px] rounded-full pointer-events-none" />
-      <div className="absolute bottom-0 right-0 w-[500px] h-[500px] bg-emerald-500/5 blur-[150px] rounded-full pointer-events-none" />
-
-      <div 
-        className="absolute z-50 transition-transform duration-75 ease-out will-change-transform flex flex-col items-center pointer-events-none"
-        style={{
-          left: 0,
-          top: 9,
-          height: `${actualItemSize}px`,
-          width: '1px', 
-          transform: `translateX(${floatingNHorizontalPos}px)`,
-          justifyContent: 'center'
-        }}
-      >
-        <div className="flex flex-col items-center gap-0">
-          <div className="bg-zinc-950/80 backdrop-blur-xl border border-indigo-500/40 px-4 py-1.5 rounded shadow-[0_0_30px_rgba(99,102,241,0.2)] flex items-center justify-center">
-            <span className="text-xl font-black text-indigo-400 font-mono tabular-nums leading-none">
-              {Math.floor(currentStep).toString()}
-            </span>
-          </div>
-          <div className="w-[1px] h-3 bg-gradient-to-b from-indigo-500/50 to-transparent" />
-        </div>
-      </div>
-
-      <div className="relative w-full h-full overflow-hidden">
-        <div 
-          className="relative w-full h-full"
-          style={{ transform: `translateY(${actualItemSize}px)` }}
-        >
-          <NumberRow
-            label="1"
-            movementValue={1}
-            rowIndex={0}
-            currentStep={currentStep}
-            itemSize={actualItemSize}
-            wrapWidth={width}
-            shouldWrap={shouldWrap}
-            totalRows={totalSlots}
-            isTailEnabled={isTailEnabled} 
-            tailType={tailType}
-            isFollowEnabled={isFollowEnabled}
-            colorPalette={colorPalette}
-            focusX={focusX}
-            viewportWidth={width}
-          />
-          
-          {followerRows.map((val) => (
-            <NumberRow
-              key={`follower-${val}`}
-              label={val + 1}
-              movementValue={val + 1}
-              rowIndex={val}
-              currentStep={currentStep}
-              itemSize={actualItemSize}
-              wrapWidth={width}
-              shouldWrap={shouldWrap}
-              totalRows={totalSlots}
-              isTailEnabled={isTailEnabled}
-              tailType={tailType}
-              isFollowEnabled={isFollowEnabled}
-              colorPalette={colorPalette}
-              focusX={focusX}
-              viewportWidth={width}
-            />
-          ))}
-        </div>
-      </div>
 
       {!isFullscreen && (
         <div className="absolute top-6 right-6 z-40 bg-zinc-950/80 backdrop-blur-2xl p-6 rounded-[2.5rem] border border-white/10 shadow-2xl w-80 flex flex-col gap-4 animate-in fade-in slide-in-from-right duration-300 max-h-[90vh] overflow-y-auto">
@@ -270,50 +656,91 @@ const App: React.FC = () => {
                   <div className="flex justify-between items-center text-[10px]">
                     <span className="text-zinc-500 uppercase tracking-widest">Active MOD</span>
                     <span className="text-indigo-400 font-bold">
-                      {activeTurnIndex === 0 ? 'Leader' : (activeTurnIndex > 0 ? `MOD ${activeTurnIndex + 1}` : 'Idle')}
+                      {activeTurnIndex === 0 ? 'Leader' : (activeTurnIndex > 0 ? `MOD ${formatMovementValue(movementValues[activeTurnIndex])}` : 'Idle')}
                     </span>
                   </div>
               </div>
 
+              <div className="pt-2 border-t border-white/5">
+                <AnalysisPanel
+                  N={Math.floor(currentStep)}
+                  movementValues={movementValues}
+                  rowColors={rowColorList}
+                  activeHistogram={activeHistogram}
+                  alignmentPeriod={fullAlignmentPeriod}
+                  isOpen={isAnalysisOpen}
+                  onToggle={handleToggleAnalysis}
+                  onResetHistogram={handleResetHistogram}
+                  onSeek={seekTo}
+                />
+              </div>
+
               <div className="pt-2 border-t border-white/5 space-y-4">
                   <div className="space-y-2">
                     <div className="flex items-center gap-2 text-[10px] text-zinc-500 uppercase tracking-widest">
-                      <Clock size={12} className="text-sky-400" />
-                      <span>N-Sync Mode</span>
+                      <Box size={12} className="text-violet-400" />
+                      <span>View Mode</span>
                     </div>
                     <div className="grid grid-cols-3 gap-1.5">
-                      {(['manual', 'seconds', 'ms'] as SyncMode[]).map((mode) => (
+                      {VIEW_MODES.map((mode) => (
                         <button
                           key={mode}
-                          onClick={() => {
-                            setSyncMode(mode);
-                            if (mode !== 'manual') setIsPlaying(false);
-                          }}
+                          onClick={() => handleViewModeChange(mode)}
                           className={`py-1.5 px-1 rounded-lg border text-[8px] uppercase font-bold transition-all flex items-center justify-center gap-1 ${
-                            syncMode === mode 
-                              ? 'bg-sky-500/20 text-sky-400 border-sky-500/40 shadow-[0_0_10px_rgba(56,189,248,0.1)]' 
+                            viewMode === mode 
+                              ? 'bg-violet-500/20 text-violet-400 border-violet-500/40 shadow-[0_0_10px_rgba(139,92,246,0.1)]' 
                               : 'bg-zinc-800/40 border-white/5 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
                           }`}
                         >
-                          {mode === 'manual' && <MousePointer2 size={10} />}
+                          {mode === '2d' && <Square size={10} />}
+                          {mode === 'canvas' && <Grid3x3 size={10} />}
+                          {mode === '3d' && <Box size={10} />}
                           {mode}
                         </button>
                       ))}
                     </div>
+                    <div className={`grid grid-cols-3 gap-1.5 transition-opacity ${viewMode === '3d' ? 'opacity-30 pointer-events-none' : 'opacity-100'}`}>
+                      {LAYOUT_MODES.map((l) => (
+                        <button
+                          key={l.id}
+                          onClick={() => setLayoutMode(l.id)}
+                          className={`py-1.5 px-1 rounded-lg border text-[8px] uppercase font-bold transition-all flex items-center justify-center gap-1 ${
+                            layoutMode === l.id
+                              ? 'bg-violet-500/20 text-violet-400 border-violet-500/40 shadow-[0_0_10px_rgba(139,92,246,0.1)]'
+                              : 'bg-zinc-800/40 border-white/5 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+                          }`}
+                        >
+                          {l.id === 'lanes' && <Rows3 size={10} />}
+                          {l.id === 'vertical' && <Columns3 size={10} />}
+                          {l.id === 'polar' && <CircleDot size={10} />}
+                          {l.name}
+                        </button>
+                      ))}
+                    </div>
                   </div>
 
+                  <SyncPanel
+                    syncMode={syncMode}
+                    bpm={bpm}
+                    stepsPerSecond={stepsPerSecond}
+                    syncEpoch={syncEpoch}
+                    onChange={handleSyncChange}
+                    onTap={handleTapTempo}
+                    onSetEpochToNow={handleSetEpochToNow}
+                  />
+
                   <div className={`space-y-2 transition-opacity ${syncMode !== 'manual' ? 'opacity-30 pointer-events-none' : 'opacity-100'}`}>
                     <div className="flex items-center justify-between text-[10px] text-zinc-500 uppercase tracking-widest">
                       <div className="flex items-center gap-2">
                         <Gauge size={12} className="text-indigo-400" />
                         <span>Velocity</span>
                       </div>
-                      <span className="text-zinc-300">{(speedMultiplier * 1000).toFixed(0)}x</span>
+                      <span className="text-zinc-300">{formatStepRate(speedMultiplier)}</span>
                     </div>
                     <input
-                      type="range" min="0.001" max="0.05" step="0.001"
-                      value={speedMultiplier}
-                      onChange={(e) => setSpeedMultiplier(parseFloat(e.target.value))}
+                      type="range" min="0" max="1" step="0.001"
+                      value={speedToSliderPosition(speedMultiplier)}
+                      onChange={(e) => setSpeedMultiplier((speedMultiplier < 0 ? -1 : 1) * sliderPositionToSpeed(parseFloat(e.target.value)))}
                       className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
                     />
                   </div>
@@ -324,63 +751,103 @@ const App: React.FC = () => {
                       <span>Count</span>
                     </div>
                     <input
-                      type="number" min="1" max="100"
+                      type="number" min="1" max={maxRowCount}
                       value={rowCount}
-                      onChange={(e) => setRowCount(Math.max(1, parseInt(e.target.value) || 1))}
+                      onChange={(e) => setRowCount(Math.min(maxRowCount, Math.max(1, parseInt(e.target.value) || 1)))}
                       className="bg-zinc-800/50 text-zinc-100 text-xs font-mono w-12 py-1 rounded-lg border border-white/5 outline-none text-center focus:border-indigo-500/50"
                     />
                   </div>
 
                   <div className="space-y-2">
                     <div className="flex items-center gap-2 text-[10px] text-zinc-500 uppercase tracking-widest">
-                      <Palette size={12} className="text-pink-400" />
-                      <span>Follower Palette</span>
+                      <ListOrdered size={12} className="text-lime-400" />
+                      <span>Sequence</span>
                     </div>
-                    <div className="flex flex-wrap gap-1.5">
-                      {PALETTES.map((p) => (
+                    <div className="grid grid-cols-3 gap-1.5">
+                      {SEQUENCE_SOURCES.map((q) => (
                         <button
-                          key={p.id}
-                          onClick={() => setColorPalette(p.id)}
-                          className={`flex-1 py-1.5 px-2 rounded-lg border text-[8px] uppercase font-bold transition-all ${
-                            colorPalette === p.id 
-                              ? 'bg-zinc-100 text-zinc-950 border-white' 
-                              : 'bg-zinc-800/40 border-white/5 text-zinc-400 hover:bg-zinc-800'
+                          key={q.id}
+                          onClick={() => setSequenceSource(q.id)}
+                          className={`py-1.5 px-1 rounded-lg border text-[8px] uppercase font-bold transition-all ${
+                            sequenceSource === q.id 
+                              ? 'bg-lime-500/20 text-lime-400 border-lime-500/40 shadow-[0_0_10px_rgba(132,204,22,0.1)]' 
+                              : 'bg-zinc-800/40 border-white/5 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
                           }`}
                         >
-                          {p.name}
+                          {q.name}
                         </button>
                       ))}
                     </div>
+                    {sequenceSource === 'custom' && (
+                      <div className="space-y-1">
+                        <input
+                          type="text"
+                          value={customSequence}
+                          placeholder="2, 3, 5/2, 7.5"
+                          onChange={(e) => setCustomSequence(e.target.value)}
+                          className="w-full bg-zinc-800/50 text-zinc-100 text-[10px] font-mono px-2 py-1.5 rounded-lg border border-white/5 outline-none focus:border-lime-500/50"
+                        />
+                        {invalidSequenceTokens.length > 0 && (
+                          <div className="text-[9px] text-rose-400">
+                            Ignored: {invalidSequenceTokens.join(', ')}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {sequenceSource === 'rational' && (
+                      <div className="flex items-center justify-between text-[9px] text-zinc-500 uppercase">
+                        <span>Denominator d</span>
+                        <input
+                          type="number" min="1" max={MAX_RATIONAL_DENOMINATOR}
+                          value={rationalDenominator}
+                          onChange={(e) => setRationalDenominator(Math.min(MAX_RATIONAL_DENOMINATOR, Math.max(1, parseInt(e.target.value) || 1)))}
+                          className="bg-zinc-800/50 text-zinc-100 text-xs font-mono w-12 py-1 rounded-lg border border-white/5 outline-none text-center focus:border-lime-500/50"
+                        />
+                      </div>
+                    )}
                   </div>
 
-                  <div className="space-y-2">
-                    <div className="flex items-center gap-2 text-[10px] text-zinc-500 uppercase tracking-widest">
-                      <Wind size={12} className="text-amber-400" />
-                      <span>Tail Animation</span>
-                    </div>
-                    <div className="flex flex-wrap gap-1.5">
-                      {TAIL_TYPES.map((t) => (
-                        <button
-                          key={t.id}
-                          onClick={() => setTailType(t.id)}
-                          disabled={!isTailEnabled}
-                          className={`flex-1 py-1.5 px-1 rounded-lg border text-[7px] uppercase font-bold transition-all ${
-                            tailType === t.id 
-                              ? 'bg-amber-500/20 text-amber-400 border-amber-500/40 shadow-[0_0_10px_rgba(245,158,11,0.1)]' 
-                              : 'bg-zinc-800/40 border-white/5 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
-                          } disabled:opacity-20`}
-                        >
-                          {t.name}
-                        </button>
-                      ))}
-                    </div>
-                  </div>
+                  <PalettePanel
+                    colorPalette={colorPalette}
+                    customPalettes={customPalettes}
+                    draft={paletteDraft}
+                    rowColors={rowColors}
+                    movementValues={movementValues}
+                    colors={rowColorList}
+                    onSelect={setColorPalette}
+                    onCustomPalettesChange={setCustomPalettes}
+                    onDraftChange={setPaletteDraft}
+                    onRowColorsChange={setRowColors}
+                  />
+
+                  <TailPanel
+                    tailType={tailType}
+                    isTailEnabled={isTailEnabled}
+                    customTails={customTails}
+                    draft={tailDraft}
+                    onSelect={setTailType}
+                    onCustomTailsChange={setCustomTails}
+                    onDraftChange={setTailDraft}
+                  />
+
+                  <EasingPanel
+                    easingType={easingType}
+                    bezierCurve={bezierCurve}
+                    transitionWidth={transitionWidth}
+                    rowTransitionWidths={rowTransitionWidths}
+                    movementValues={movementValues}
+                    onChange={handleEasingChange}
+                  />
+
+                  <MotionPanel motionModel={motionModel} motionAmplitude={motionAmplitude} onChange={handleMotionChange} />
+
+                  <OverlayPanel overlays={overlays} movementValues={movementValues} onChange={setOverlays} />
 
                   <div className="grid grid-cols-3 gap-2 pt-2">
                     <button
-                      onClick={() => setIsFollowEnabled(!isFollowEnabled)}
+                      onClick={toggleFollow}
                       className={`flex flex-col items-center gap-1.5 p-2 rounded-xl border transition-all ${
-                        isFollowEnabled ? 'bg-indigo-500/10 border-indigo-500/30 text-indigo-400' : 'bg-zinc-800/30 border-white/5 text-zinc-600'
+                        isFollowEnabled && view.focus === null ? 'bg-indigo-500/10 border-indigo-500/30 text-indigo-400' : 'bg-zinc-800/30 border-white/5 text-zinc-600'
                       }`}
                       title="Toggle Follow"
                     >
@@ -401,16 +868,108 @@ const App: React.FC = () => {
 
                     <button
                       onClick={() => setShouldWrap(!shouldWrap)}
-                      disabled={isFollowEnabled}
                       className={`flex flex-col items-center gap-1.5 p-2 rounded-xl border transition-all ${
                         shouldWrap ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-500' : 'bg-zinc-800/30 border-white/5 text-zinc-600'
-                      } disabled:opacity-20 disabled:cursor-not-allowed`}
+                      }`}
                       title="Toggle Wrap"
                     >
                       <Settings2 size={14} />
                       <span className="text-[8px] uppercase font-bold">Wrap</span>
                     </button>
                   </div>
+
+                  {shouldWrap && (
+                    <div className="flex items-center justify-between gap-2 text-[9px] text-zinc-500 uppercase">
+                      <span>Wrap Every</span>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => setWrapModulus(0)}
+                          className={`py-1 px-2 rounded-lg border text-[8px] uppercase font-bold transition-all ${
+                            wrapModulus === 0
+                              ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/40'
+                              : 'bg-zinc-800/40 border-white/5 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+                          }`}
+                          title="Wrap at the viewport width"
+                        >
+                          Viewport
+                        </button>
+                        <input
+                          type="number" min="1" max={MAX_WRAP_MODULUS}
+                          value={wrapModulus || ''}
+                          placeholder="M"
+                          onChange={(e) => setWrapModulus(Math.min(MAX_WRAP_MODULUS, Math.max(0, parseInt(e.target.value) || 0)))}
+                          className="bg-zinc-800/50 text-zinc-100 text-xs font-mono w-14 py-1 rounded-lg border border-white/5 outline-none text-center focus:border-emerald-500/50"
+                          title="Wrap modulus M in N units; rows show their position mod M"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-3 gap-2">
+                    <button
+                      onClick={handleCopyLink}
+                      className={`flex items-center justify-center gap-2 py-2 rounded-xl border text-[8px] uppercase font-bold transition-all ${
+                        isLinkCopied
+                          ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400'
+                          : 'bg-zinc-800/40 border-white/5 text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200'
+                      }`}
+                      title="Copy a link to this exact frame"
+                    >
+                      {isLinkCopied ? <Check size={12} /> : <Link size={12} />}
+                      <span>{isLinkCopied ? 'Link Copied' : 'Copy Link'}</span>
+                    </button>
+
+                    <button
+                      onClick={() => {
+                        setIsPlaying(false);
+                        setIsExportOpen(true);
+                      }}
+                      className="flex items-center justify-center gap-2 py-2 rounded-xl border text-[8px] uppercase font-bold transition-all bg-zinc-800/40 border-white/5 text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200"
+                      title="Render an N range to frames or video"
+                    >
+                      <Film size={12} />
+                      <span>Export</span>
+                    </button>
+
+                    <button
+                      onClick={() => {
+                        setIsPlaying(false);
+                        setIsSnapshotOpen(true);
+                      }}
+                      className="flex items-center justify-center gap-2 py-2 rounded-xl border text-[8px] uppercase font-bold transition-all bg-zinc-800/40 border-white/5 text-zinc-400 hover:bg-zinc-800 hover:text-zinc-200"
+                      title="Save this frame as SVG or PNG"
+                    >
+                      <Camera size={12} />
+                      <span>Snapshot</span>
+                    </button>
+                  </div>
+
+                  <div className="pt-2 border-t border-white/5">
+                    <PresetPanel getConfig={getConfig} onApply={applyConfig} />
+                  </div>
+
+                  <div className="pt-2 border-t border-white/5">
+                    <EventLog
+                      events={eventLog}
+                      movementValues={movementValues}
+                      alignmentRows={alignmentRows}
+                      alignmentPeriod={alignmentPeriod}
+                      onToggleAlignmentRow={handleToggleAlignmentRow}
+                      onSelectAllAlignmentRows={handleSelectAllAlignmentRows}
+                      onJumpPrevious={handlePreviousAlignment}
+                      onJumpNext={handleNextAlignment}
+                      onSeek={seekTo}
+                      onClear={handleClearEvents}
+                    />
+                  </div>
+
+                  <div className="pt-2 border-t border-white/5">
+                    <BookmarkPanel bookmarks={bookmarks} n={Math.floor(currentStep)} onChange={setBookmarks} onSeek={seekTo} />
+                  </div>
+
+                  <div className="pt-2 border-t border-white/5">
+                    <SoundPanel settings={sonification} movementValues={movementValues} onChange={setSonification} />
+                  </div>
               </div>
             </div>
           </div>
@@ -420,16 +979,79 @@ const App: React.FC = () => {
               isPlaying={isPlaying && syncMode === 'manual'}
               onPlayPause={handlePlayPause}
               onStep={handleStep}
+              onStepBack={handleStepBack}
               onReset={handleReset}
+              onSeek={seekTo}
               currentStep={Math.floor(currentStep)}
               speedMultiplier={speedMultiplier}
               onSpeedChange={setSpeedMultiplier}
+              bookmarks={bookmarks}
             />
           </div>
         </div>
       )}
 
-      <div className="absolute bottom-6 left-6 z-50">
+      {isExportOpen && (
+        <ExportDialog
+          currentStep={currentStep}
+          speedMultiplier={speedMultiplier}
+          scene={{ movementValues, shouldWrap, wrapModulus, isFollowEnabled, isTailEnabled, tailStyle, rowColors: rowColorList, rowEasings, motion, layoutMode, overlays, view }}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {isSnapshotOpen && (
+        <SnapshotDialog
+          currentStep={currentStep}
+          viewWidth={width}
+          viewHeight={height}
+          scene={{ movementValues, shouldWrap, wrapModulus, isFollowEnabled, isTailEnabled, tailStyle, rowColors: rowColorList, rowEasings, motion, layoutMode, overlays, view }}
+          onClose={() => setIsSnapshotOpen(false)}
+        />
+      )}
+
+      {isPaletteOpen && (
+        <CommandPalette commands={commands} keymap={keymap} onClose={() => setIsPaletteOpen(false)} />
+      )}
+
+      {isHelpOpen && (
+        <ShortcutHelp commands={commands} keymap={keymap} onChange={handleKeymapChange} onClose={() => setIsHelpOpen(false)} />
+      )}
+
+      <div className="absolute bottom-6 left-6 z-50 flex items-center gap-3">
+        {isViewAdjustable && (
+          <>
+            <button
+              onClick={() => zoomBy(1 / ZOOM_STEP)}
+              className="p-4 rounded-full bg-zinc-950/50 backdrop-blur-xl border border-white/10 text-zinc-400 hover:text-white hover:bg-zinc-800 transition-all shadow-xl active:scale-90"
+              title="Zoom Out"
+            >
+              <ZoomOut size={20} />
+            </button>
+            <button
+              onClick={() => zoomBy(ZOOM_STEP)}
+              className="p-4 rounded-full bg-zinc-950/50 backdrop-blur-xl border border-white/10 text-zinc-400 hover:text-white hover:bg-zinc-800 transition-all shadow-xl active:scale-90"
+              title="Zoom In"
+            >
+              <ZoomIn size={20} />
+            </button>
+            <button
+              onClick={() => setView(DEFAULT_VIEW)}
+              disabled={isDefaultView(view)}
+              className="p-4 rounded-full bg-zinc-950/50 backdrop-blur-xl border border-white/10 text-zinc-400 hover:text-white hover:bg-zinc-800 transition-all shadow-xl active:scale-90 disabled:opacity-30 disabled:pointer-events-none"
+              title="Reset View (0)"
+            >
+              <Scan size={20} />
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => setIsHelpOpen(true)}
+          className="p-4 rounded-full bg-zinc-950/50 backdrop-blur-xl border border-white/10 text-zinc-400 hover:text-white hover:bg-zinc-800 transition-all shadow-xl active:scale-90"
+          title="Keyboard Shortcuts (?)"
+        >
+          <Keyboard size={20} />
+        </button>
         <button
           onClick={toggleFullscreen}
           className={`p-4 rounded-full bg-zinc-950/50 backdrop-blur-xl border border-white/10 text-zinc-400 hover:text-white hover:bg-zinc-800 transition-all shadow-xl active:scale-90 ${isFullscreen ? 'text-indigo-400' : ''}`}
@@ -0,0 +1,146 @@
+import React, { useMemo } from 'react';
+import { ChartColumn, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import { getRowTriggerCounts, getTriggerHistory } from '../utils/analysis';
+import { getNextAlignment, getTriggeringRows } from '../utils/events';
+import { formatMovementValue } from '../utils/sequences';
+
+interface AnalysisPanelProps {
+  N: number; // Integer part of the current step
+  movementValues: number[];
+  rowColors: string[];
+  activeHistogram: number[]; // Times each row was the active row this session
+  alignmentPeriod: number | null; // Period of the alignment of every row
+  isOpen: boolean;
+  onToggle: () => void;
+  onResetHistogram: () => void;
+  onSeek: (n: number) => void;
+}
+
+const SPARKLINE_WIDTH = 240;
+const SPARKLINE_HEIGHT = 28;
+
+// Polyline through the values, scaled so the largest touches the top
+const getSparklinePoints = (values: number[], max: number) => {
+  const stepX = values.length > 1 ? SPARKLINE_WIDTH / (values.length - 1) : 0;
+  return values
+    .map((value, i) => `${(i * stepX).toFixed(1)},${(SPARKLINE_HEIGHT - 1 - (value / max) * (SPARKLINE_HEIGHT - 2)).toFixed(1)}`)
+    .join(' ');
+};
+
+// Takes the integer N so it only re-renders when N crosses an integer
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = React.memo(({
+  N,
+  movementValues,
+  rowColors,
+  activeHistogram,
+  alignmentPeriod,
+  isOpen,
+  onToggle,
+  onResetHistogram,
+  onSeek,
+}) => {
+  const triggerCounts = useMemo(() => getRowTriggerCounts(N, movementValues), [N, movementValues]);
+  const divisorCount = useMemo(() => getTriggeringRows(N, movementValues).length, [N, movementValues]);
+  const history = useMemo(() => getTriggerHistory(N, movementValues), [N, movementValues]);
+
+  const historyMax = Math.max(1, ...history);
+  const activeTotal = activeHistogram.reduce((sum, count) => sum + count, 0);
+  const activeMax = Math.max(1, ...activeHistogram);
+  const nextAlignment = alignmentPeriod === null ? null : getNextAlignment(N, alignmentPeriod);
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={onToggle}
+        className="w-full flex items-center justify-between text-[10px] text-zinc-500 uppercase tracking-widest hover:text-zinc-300"
+      >
+        <div className="flex items-center gap-2">
+          <ChartColumn size={12} className="text-cyan-400" />
+          <span>Analysis</span>
+        </div>
+        {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+      </button>
+
+      {isOpen && (
+        <div className="space-y-3 text-[9px] tabular-nums">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="px-2 py-1.5 rounded-lg bg-zinc-800/40 border border-white/5">
+              <div className="text-zinc-500 uppercase">d(N) in View</div>
+              <div className="text-cyan-300 font-bold text-xs">
+                {divisorCount}
+                <span className="text-zinc-500 font-normal"> / {movementValues.length}</span>
+              </div>
+            </div>
+            <button
+              onClick={() => nextAlignment !== null && onSeek(nextAlignment)}
+              disabled={nextAlignment === null}
+              className="px-2 py-1.5 rounded-lg bg-zinc-800/40 border border-white/5 text-left hover:bg-zinc-800 disabled:cursor-default disabled:hover:bg-zinc-800/40"
+              title={nextAlignment === null ? 'These rows never align within the safe integer range' : `Jump to N = ${nextAlignment.toLocaleString()}`}
+            >
+              <div className="text-zinc-500 uppercase">Next Alignment</div>
+              <div className="text-cyan-300 font-bold text-xs truncate">
+                {nextAlignment === null ? 'Never' : `+${(nextAlignment - N).toLocaleString()}`}
+              </div>
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-zinc-500 uppercase">
+              <span>Triggers / Step</span>
+              <span>Last {history.length}</span>
+            </div>
+            <svg
+              viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-7 rounded bg-zinc-800/40"
+            >
+              {history.length > 0 && (
+                <polyline
+                  points={getSparklinePoints(history, historyMax)}
+                  fill="none"
+                  stroke="rgb(34, 211, 238)"
+                  strokeWidth="1.5"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-zinc-500 uppercase">
+              <span>Row · Triggers · Active</span>
+              <button
+                onClick={onResetHistogram}
+                disabled={activeTotal === 0}
+                className="p-1 rounded text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 disabled:opacity-20"
+                title="Reset Active Counts"
+              >
+                <RotateCcw size={10} />
+              </button>
+            </div>
+            <ul className="max-h-40 overflow-y-auto space-y-0.5">
+              {movementValues.map((v, rowIndex) => {
+                const activeCount = activeHistogram[rowIndex] ?? 0;
+                return (
+                  <li key={rowIndex} className="flex items-center gap-2">
+                    <span className="w-8 shrink-0 text-right font-bold" style={{ color: rowColors[rowIndex] }}>
+                      {formatMovementValue(v)}
+                    </span>
+                    <span className="w-14 shrink-0 text-right text-zinc-300 truncate">{triggerCounts[rowIndex].toLocaleString()}</span>
+                    <div className="flex-1 h-2 rounded-sm bg-zinc-800/60 overflow-hidden">
+                      <div
+                        className="h-full rounded-sm"
+                        style={{ width: `${(activeCount / activeMax) * 100}%`, backgroundColor: rowColors[rowIndex] }}
+                      />
+                    </div>
+                    <span className="w-8 shrink-0 text-right text-zinc-500">{activeCount}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
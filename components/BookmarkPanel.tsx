@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Bookmark as BookmarkIcon, BookmarkPlus, ChevronLeft, ChevronRight, Trash2 } from 'lucide-react';
+import { Bookmark } from '../types';
+import { addBookmark } from '../utils/bookmarks';
+import { getNextHighlyComposite, getPreviousHighlyComposite } from '../utils/numberTheory';
+
+interface BookmarkPanelProps {
+  bookmarks: Bookmark[];
+  n: number; // Whole current N, so the panel re-renders only when it changes
+  onChange: (bookmarks: Bookmark[]) => void;
+  onSeek: (n: number) => void;
+}
+
+const iconButtonClassName = 'p-1.5 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-all disabled:opacity-20 disabled:cursor-not-allowed';
+const jumpButtonClassName = 'p-1.5 rounded-lg bg-zinc-800/40 border border-white/5 text-zinc-400 hover:text-white transition-all disabled:opacity-20';
+
+export const BookmarkPanel: React.FC<BookmarkPanelProps> = React.memo(({ bookmarks, n: N, onChange, onSeek }) => {
+  const [label, setLabel] = useState<string>('');
+  const previousHighlyComposite = getPreviousHighlyComposite(N);
+  const nextHighlyComposite = getNextHighlyComposite(N);
+
+  const handleAdd = () => {
+    onChange(addBookmark(bookmarks, N, label.trim()));
+    setLabel('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-[10px] text-zinc-500 uppercase tracking-widest">
+        <BookmarkIcon size={12} className="text-amber-400" />
+        <span>Bookmarks</span>
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <button
+          onClick={() => previousHighlyComposite !== null && onSeek(previousHighlyComposite)}
+          disabled={previousHighlyComposite === null}
+          className={jumpButtonClassName}
+          title="Previous Highly Composite N"
+        >
+          <ChevronLeft size={12} />
+        </button>
+        <div className="flex-1 text-center text-[9px] text-zinc-400 uppercase tabular-nums truncate">
+          Highly composite{nextHighlyComposite !== null && ` · next ${nextHighlyComposite.toLocaleString()}`}
+        </div>
+        <button
+          onClick={() => nextHighlyComposite !== null && onSeek(nextHighlyComposite)}
+          disabled={nextHighlyComposite === null}
+          className={jumpButtonClassName}
+          title="Next Highly Composite N"
+        >
+          <ChevronRight size={12} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <input
+          type="text"
+          value={label}
+          placeholder={`Label for N = ${N}`}
+          onChange={(e) => setLabel(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          className="flex-1 min-w-0 bg-zinc-800/50 text-zinc-100 text-[10px] font-mono px-2 py-1.5 rounded-lg border border-white/5 outline-none focus:border-amber-500/50"
+        />
+        <button onClick={handleAdd} className={iconButtonClassName} title="Bookmark Current N">
+          <BookmarkPlus size={14} />
+        </button>
+      </div>
+
+      {bookmarks.length > 0 && (
+        <ul className="space-y-0.5 max-h-32 overflow-y-auto text-[9px] tabular-nums">
+          {bookmarks.map((bookmark) => (
+            <li key={bookmark.id} className="flex items-center gap-1">
+              <button
+                onClick={() => onSeek(bookmark.n)}
+                className={`flex-1 min-w-0 flex items-center gap-2 px-2 py-0.5 rounded text-left hover:bg-zinc-800 ${
+                  bookmark.n === N ? 'text-amber-300 bg-amber-500/10' : 'text-zinc-400'
+                }`}
+              >
+                <span className="font-bold text-zinc-200">{bookmark.n.toLocaleString()}</span>
+                <span className="truncate">{bookmark.label}</span>
+              </button>
+              <button
+                onClick={() => onChange(bookmarks.filter((b) => b.id !== bookmark.id))}
+                className={iconButtonClassName}
+                title="Remove Bookmark"
+              >
+                <Trash2 size={10} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,71 @@
+import React from 'react';
+import {
+  CHIP_BORDER,
+  CanvasFrame,
+  GRID_OPACITY,
+  LEADER_BORDER,
+  LEADER_GLOW,
+  LEADER_GLOW_BLUR,
+  PULSE_GLOW_SCALE,
+  WRAP_MARKER_COLOR,
+  getFrameChips,
+  getGridLines,
+  getWrapMarkerRects,
+} from '../utils/canvasRenderer';
+import { getBlockMetrics } from '../utils/layout';
+
+interface ChipLayerProps {
+  frame: CanvasFrame;
+}
+
+/**
+ * DOM renderer for the vertical and ring layouts: the grid and the blocks
+ * the canvas renderer paints, as styled elements. Horizontal lanes use
+ * NumberRow instead.
+ */
+export const ChipLayer: React.FC<ChipLayerProps> = ({ frame }) => {
+  const { width, height, itemSize } = frame;
+  const { xs, ys, ringRadii } = getGridLines(frame);
+  const { blockHeight, minWidth, fontSize, borderRadius, headBorderWidth } = getBlockMetrics(itemSize);
+
+  return (
+    <div className="absolute inset-0 overflow-hidden pointer-events-none">
+      <svg className="absolute inset-0" width={width} height={height} style={{ opacity: GRID_OPACITY }}>
+        {xs.map((x) => <rect key={`x${x}`} x={x} y={0} width={1} height={height} fill="#fff" />)}
+        {ys.map((y) => <rect key={`y${y}`} x={0} y={y} width={width} height={1} fill="#fff" />)}
+        {ringRadii.map((r) => <circle key={`r${r}`} cx={width / 2} cy={height / 2} r={r} fill="none" stroke="#fff" />)}
+      </svg>
+
+      <svg className="absolute inset-0" width={width} height={height}>
+        {getWrapMarkerRects(frame).map(({ x, y, width: w, height: h }) => (
+          <rect key={`${x},${y}`} x={x} y={y} width={w} height={h} fill={WRAP_MARKER_COLOR} />
+        ))}
+      </svg>
+
+      {getFrameChips(frame).map((chip, index) => (
+        <div
+          key={index}
+          className="absolute top-0 left-0 flex items-center justify-center bg-zinc-900/95 backdrop-blur-md shadow-2xl font-mono font-bold will-change-transform"
+          style={{
+            width: `${minWidth}px`,
+            height: `${blockHeight}px`,
+            transform: `translate(${chip.cx - minWidth / 2}px, ${chip.cy - blockHeight / 2}px) scale(${chip.scale})`,
+            opacity: chip.opacity,
+            color: chip.labelColor,
+            fontSize: `${fontSize}px`,
+            borderRadius: `${borderRadius}px`,
+            borderStyle: 'solid',
+            borderWidth: chip.isHead ? `${headBorderWidth}px` : '0px',
+            borderColor: chip.isPulsingHead ? chip.color : (chip.isLeaderHead ? LEADER_BORDER : CHIP_BORDER),
+            boxShadow: chip.isPulsingHead
+              ? `0 0 ${blockHeight * PULSE_GLOW_SCALE}px ${chip.color}`
+              : (chip.isLeaderHead ? `0 0 ${LEADER_GLOW_BLUR}px ${LEADER_GLOW}` : undefined),
+            zIndex: chip.isHead ? 10 : 0,
+          }}
+        >
+          {chip.label}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Search } from 'lucide-react';
+import { Command, Keymap } from '../types';
+import { getBindings } from '../utils/keymap';
+
+interface CommandPaletteProps {
+  commands: Command[];
+  keymap: Keymap;
+  onClose: () => void;
+}
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, keymap, onClose }) => {
+  const [query, setQuery] = useState<string>('');
+  const [selectedIndex, setSelectedIndex] = useState<number>(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const bindings = useMemo(() => getBindings(keymap), [keymap]);
+
+  const matches = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return commands.filter((c) => {
+      const text = `${c.group} ${c.name}`.toLowerCase();
+      return terms.every((term) => text.includes(term));
+    });
+  }, [commands, query]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.children[selectedIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const runCommand = (command: Command | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex((i) => Math.min(matches.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex((i) => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      runCommand(matches[selectedIndex]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-[70] flex items-start justify-center pt-[15vh] bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-[28rem] max-w-[90vw] bg-zinc-950/95 border border-white/10 rounded-2xl shadow-2xl font-mono overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-white/5">
+          <Search size={14} className="text-zinc-500" />
+          <input
+            type="text"
+            value={query}
+            autoFocus
+            placeholder="Type a command"
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="flex-1 bg-transparent text-zinc-100 text-xs outline-none"
+          />
+        </div>
+        <ul ref={listRef} className="max-h-80 overflow-y-auto py-1">
+          {matches.map((command, index) => (
+            <li key={command.id}>
+              <button
+                onClick={() => runCommand(command)}
+                onMouseMove={() => setSelectedIndex(index)}
+                className={`w-full flex items-center gap-3 px-4 py-1.5 text-left text-[10px] ${
+                  index === selectedIndex ? 'bg-indigo-500/20 text-white' : 'text-zinc-400'
+                }`}
+              >
+                <span className="w-16 shrink-0 text-[8px] uppercase tracking-widest text-zinc-600">{command.group}</span>
+                <span className="flex-1 truncate">{command.name}</span>
+                {bindings[command.id]?.slice(0, 2).map((combo) => (
+                  <kbd key={combo} className="px-1.5 py-0.5 rounded bg-zinc-800 border border-white/10 text-[8px] text-zinc-300">{combo}</kbd>
+                ))}
+              </button>
+            </li>
+          ))}
+          {matches.length === 0 && (
+            <li className="px-4 py-3 text-[10px] text-zinc-600">No matching commands</li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,77 @@
-import React from 'react';
-import { Play, Pause, StepForward, RotateCcw } from 'lucide-react';
+import React, { useState } from 'react';
+import { Play, Pause, StepForward, StepBack, RotateCcw, Rewind, CornerDownLeft } from 'lucide-react';
 import { ControlBarProps } from '../types';
+import { getTimelineSpan } from '../utils/timeline';
 
 export const ControlBar: React.FC<ControlBarProps> = ({
   isPlaying,
   onPlayPause,
   onStep,
+  onStepBack,
   onReset,
+  onSeek,
+  currentStep,
+  speedMultiplier,
+  onSpeedChange,
+  bookmarks,
 }) => {
+  const [goToInput, setGoToInput] = useState<string>('');
+  // Track length is frozen while dragging so the thumb does not jump when
+  // the span would shrink under it
+  const [dragSpan, setDragSpan] = useState<number | null>(null);
+  const span = dragSpan ?? getTimelineSpan(currentStep);
+  const isReversed = speedMultiplier < 0;
+
+  const handleGoTo = () => {
+    const n = parseFloat(goToInput);
+    if (!Number.isFinite(n) || n < 0) return;
+    onSeek(n);
+    setGoToInput('');
+  };
+
   return (
     <div className="flex flex-col items-center gap-4 w-full">
-      <div className="flex items-center justify-between w-full gap-3 p-2 bg-zinc-800/40 backdrop-blur-md border border-white/5 rounded-[2rem] shadow-inner">
+      <div className="w-full space-y-1">
+        <div className="relative">
+          <input
+            type="range" min="0" max={span} step="1"
+            value={Math.min(currentStep, span)}
+            onPointerDown={() => setDragSpan(span)}
+            onPointerUp={() => setDragSpan(null)}
+            onChange={(e) => onSeek(parseFloat(e.target.value))}
+            className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            title="Scrub N"
+          />
+          {bookmarks.filter((b) => b.n <= span).map((b) => (
+            <div
+              key={b.id}
+              className="absolute top-0 w-px h-1 bg-amber-400 pointer-events-none"
+              style={{ left: `${(b.n / span) * 100}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-[8px] text-zinc-600 font-mono tabular-nums">
+          <span>0</span>
+          <span>{span.toLocaleString()}</span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between w-full gap-1 p-2 bg-zinc-800/40 backdrop-blur-md border border-white/5 rounded-[2rem] shadow-inner">
         <button
           onClick={onReset}
-          className="p-3 rounded-full hover:bg-zinc-700/50 text-zinc-400 hover:text-white transition-all active:scale-90"
+          className="p-2.5 rounded-full hover:bg-zinc-700/50 text-zinc-400 hover:text-white transition-all active:scale-90"
           title="Reset Simulation"
         >
-          <RotateCcw size={18} />
+          <RotateCcw size={16} />
+        </button>
+
+        <button
+          onClick={onStepBack}
+          disabled={isPlaying || currentStep <= 0}
+          className="p-2.5 rounded-full hover:bg-zinc-700/50 text-zinc-400 hover:text-white transition-all disabled:opacity-20 disabled:cursor-not-allowed"
+          title="Previous Step"
+        >
+          <StepBack size={16} />
         </button>
 
         <button
@@ -28,18 +83,47 @@ export const ControlBar: React.FC<ControlBarProps> = ({
           }`}
           title={isPlaying ? 'Pause' : 'Start'}
         >
-          {isPlaying ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" />}
+          {isPlaying ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" className={isReversed ? 'rotate-180' : ''} />}
         </button>
 
         <button
           onClick={onStep}
           disabled={isPlaying}
-          className="p-3 rounded-full hover:bg-zinc-700/50 text-zinc-400 hover:text-white transition-all disabled:opacity-20 disabled:cursor-not-allowed"
+          className="p-2.5 rounded-full hover:bg-zinc-700/50 text-zinc-400 hover:text-white transition-all disabled:opacity-20 disabled:cursor-not-allowed"
           title="Next Step"
         >
-          <StepForward size={18} />
+          <StepForward size={16} />
+        </button>
+
+        <button
+          onClick={() => onSpeedChange(-speedMultiplier)}
+          className={`p-2.5 rounded-full transition-all active:scale-90 ${
+            isReversed ? 'bg-rose-500/10 text-rose-400 border border-rose-500/20' : 'hover:bg-zinc-700/50 text-zinc-400 hover:text-white'
+          }`}
+          title={isReversed ? 'Play Forward' : 'Play in Reverse'}
+        >
+          <Rewind size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1.5 w-full">
+        <input
+          type="number" min="0"
+          value={goToInput}
+          placeholder="Go to N"
+          onChange={(e) => setGoToInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleGoTo()}
+          className="flex-1 min-w-0 bg-zinc-800/50 text-zinc-100 text-[10px] font-mono px-2 py-1.5 rounded-lg border border-white/5 outline-none focus:border-indigo-500/50"
+        />
+        <button
+          onClick={handleGoTo}
+          disabled={goToInput === ''}
+          className="p-1.5 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-all disabled:opacity-20 disabled:cursor-not-allowed"
+          title="Jump to N"
+        >
+          <CornerDownLeft size={14} />
         </button>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,193 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Spline } from 'lucide-react';
+import { BezierCurve, EasingType, OscillatorConfig } from '../types';
+import { EASING_TYPES, MAX_TRANSITION_WIDTH, MIN_TRANSITION_WIDTH } from '../constants';
+import { getEasingFunction } from '../utils/easing';
+import { formatMovementValue } from '../utils/sequences';
+
+export type EasingConfig = Pick<OscillatorConfig, 'easingType' | 'bezierCurve' | 'transitionWidth' | 'rowTransitionWidths'>;
+
+interface EasingPanelProps extends EasingConfig {
+  movementValues: number[];
+  onChange: (patch: Partial<EasingConfig>) => void;
+}
+
+// Curve preview geometry; the y range leaves room for overshooting curves
+const PREVIEW_WIDTH = 200;
+const PREVIEW_HEIGHT = 100;
+const PREVIEW_PADDING = 10;
+const PREVIEW_Y_MIN = -0.3;
+const PREVIEW_Y_MAX = 1.3;
+const PREVIEW_SAMPLES = 64;
+
+const toPreviewX = (t: number) => PREVIEW_PADDING + t * (PREVIEW_WIDTH - 2 * PREVIEW_PADDING);
+const toPreviewY = (v: number) => {
+  const span = PREVIEW_Y_MAX - PREVIEW_Y_MIN;
+  return PREVIEW_HEIGHT - PREVIEW_PADDING - ((v - PREVIEW_Y_MIN) / span) * (PREVIEW_HEIGHT - 2 * PREVIEW_PADDING);
+};
+const fromPreviewX = (x: number) => (x - PREVIEW_PADDING) / (PREVIEW_WIDTH - 2 * PREVIEW_PADDING);
+const fromPreviewY = (y: number) => {
+  const span = PREVIEW_Y_MAX - PREVIEW_Y_MIN;
+  return PREVIEW_Y_MIN + ((PREVIEW_HEIGHT - PREVIEW_PADDING - y) / (PREVIEW_HEIGHT - 2 * PREVIEW_PADDING)) * span;
+};
+
+const optionClassName = (isActive: boolean) => `py-1.5 px-1 rounded-lg border text-[8px] uppercase font-bold transition-all ${
+  isActive
+    ? 'bg-cyan-500/20 text-cyan-400 border-cyan-500/40'
+    : 'bg-zinc-800/40 border-white/5 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+}`;
+
+const numberInputClassName = 'w-full min-w-0 bg-zinc-800/50 text-zinc-100 text-[10px] font-mono px-1 py-0.5 rounded border border-white/5 outline-none text-center focus:border-cyan-500/50';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const EasingPanel: React.FC<EasingPanelProps> = React.memo(({
+  easingType,
+  bezierCurve,
+  transitionWidth,
+  rowTransitionWidths,
+  movementValues,
+  onChange,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draggedHandle, setDraggedHandle] = useState<0 | 1 | null>(null);
+
+  const curvePath = useMemo(() => {
+    const ease = getEasingFunction(easingType, bezierCurve);
+    return Array.from({ length: PREVIEW_SAMPLES + 1 }, (_, i) => {
+      const t = i / PREVIEW_SAMPLES;
+      return `${i === 0 ? 'M' : 'L'}${toPreviewX(t).toFixed(1)},${toPreviewY(ease(t)).toFixed(1)}`;
+    }).join(' ');
+  }, [easingType, bezierCurve]);
+
+  const setBezierValue = (index: number, value: number) => {
+    const next = [...bezierCurve] as BezierCurve;
+    next[index] = value;
+    onChange({ bezierCurve: next });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    if (draggedHandle === null || !svg) return;
+    const rect = svg.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * PREVIEW_WIDTH;
+    const y = ((e.clientY - rect.top) / rect.height) * PREVIEW_HEIGHT;
+    const next = [...bezierCurve] as BezierCurve;
+    next[draggedHandle * 2] = round(Math.min(1, Math.max(0, fromPreviewX(x))));
+    next[draggedHandle * 2 + 1] = round(Math.min(PREVIEW_Y_MAX, Math.max(PREVIEW_Y_MIN, fromPreviewY(y))));
+    onChange({ bezierCurve: next });
+  };
+
+  const setRowWidth = (rowIndex: number, value: string) => {
+    const widths = { ...rowTransitionWidths };
+    const width = parseFloat(value);
+    if (width > 0) {
+      widths[rowIndex] = Math.min(MAX_TRANSITION_WIDTH, Math.max(MIN_TRANSITION_WIDTH, width));
+    } else {
+      delete widths[rowIndex];
+    }
+    onChange({ rowTransitionWidths: widths });
+  };
+
+  const handles = [
+    { x: bezierCurve[0], y: bezierCurve[1], anchorX: 0, anchorY: 0 },
+    { x: bezierCurve[2], y: bezierCurve[3], anchorX: 1, anchorY: 1 },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-[10px] text-zinc-500 uppercase tracking-widest">
+        <Spline size={12} className="text-cyan-400" />
+        <span>Easing</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1.5">
+        {EASING_TYPES.map((e) => (
+          <button key={e.id} onClick={() => onChange({ easingType: e.id as EasingType })} className={optionClassName(easingType === e.id)}>
+            {e.name}
+          </button>
+        ))}
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`}
+        className="w-full bg-zinc-900/60 rounded-lg border border-white/5 touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDraggedHandle(null)}
+        onPointerLeave={() => setDraggedHandle(null)}
+      >
+        <line x1={toPreviewX(0)} y1={toPreviewY(0)} x2={toPreviewX(1)} y2={toPreviewY(0)} stroke="#3f3f46" strokeWidth="0.5" />
+        <line x1={toPreviewX(0)} y1={toPreviewY(1)} x2={toPreviewX(1)} y2={toPreviewY(1)} stroke="#3f3f46" strokeWidth="0.5" />
+        <path d={curvePath} fill="none" stroke="#22d3ee" strokeWidth="1.5" />
+        {easingType === 'bezier' && handles.map((h, index) => (
+          <g key={index}>
+            <line
+              x1={toPreviewX(h.anchorX)} y1={toPreviewY(h.anchorY)}
+              x2={toPreviewX(h.x)} y2={toPreviewY(h.y)}
+              stroke="#a1a1aa" strokeWidth="0.75" strokeDasharray="2 2"
+            />
+            <circle
+              cx={toPreviewX(h.x)} cy={toPreviewY(h.y)} r="4"
+              className="fill-cyan-400 cursor-grab"
+              onPointerDown={(e) => {
+                e.preventDefault();
+                setDraggedHandle(index as 0 | 1);
+              }}
+            />
+          </g>
+        ))}
+      </svg>
+
+      {easingType === 'bezier' && (
+        <div className="grid grid-cols-4 gap-1">
+          {bezierCurve.map((value, index) => (
+            <input
+              key={index}
+              type="number" step="0.05"
+              min={index % 2 === 0 ? 0 : -1}
+              max={index % 2 === 0 ? 1 : 2}
+              value={value}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value);
+                if (Number.isFinite(parsed)) setBezierValue(index, parsed);
+              }}
+              className={numberInputClassName}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1 text-[9px] text-zinc-500 uppercase">
+        <div className="flex justify-between">
+          <span>Transition Width</span>
+          <span className="text-zinc-300">{transitionWidth.toFixed(2)} N</span>
+        </div>
+        <input
+          type="range" min={MIN_TRANSITION_WIDTH} max="2" step="0.01"
+          value={Math.min(2, transitionWidth)}
+          onChange={(e) => onChange({ transitionWidth: parseFloat(e.target.value) })}
+          className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+        />
+      </div>
+
+      <details className="text-[9px] text-zinc-500">
+        <summary className="uppercase cursor-pointer hover:text-zinc-300">Per-Row Widths</summary>
+        <ul className="mt-1 max-h-32 overflow-y-auto space-y-0.5">
+          {movementValues.map((v, rowIndex) => (
+            <li key={rowIndex} className="flex items-center gap-2">
+              <span className="w-10 font-bold text-zinc-300 truncate">{formatMovementValue(v)}</span>
+              <input
+                type="number" min="0" max={MAX_TRANSITION_WIDTH} step="0.05"
+                value={rowTransitionWidths[rowIndex] ?? ''}
+                placeholder={transitionWidth.toFixed(2)}
+                onChange={(e) => setRowWidth(rowIndex, e.target.value)}
+                className={numberInputClassName}
+              />
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+});
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Activity, ChevronLeft, ChevronRight, Sparkles, Trash2 } from 'lucide-react';
+import { TriggerEvent } from '../types';
+
+interface EventLogProps {
+  events: TriggerEvent[];
+  movementValues: number[];
+  alignmentRows: number[] | null;
+  alignmentPeriod: number | null;
+  onToggleAlignmentRow: (rowIndex: number) => void;
+  onSelectAllAlignmentRows: () => void;
+  onJumpPrevious: () => void;
+  onJumpNext: () => void;
+  onSeek: (n: number) => void;
+  onClear: () => void;
+}
+
+// Triggering rows listed per entry before the list is abbreviated
+const MAX_LISTED_ROWS = 8;
+
+export const EventLog: React.FC<EventLogProps> = React.memo(({
+  events,
+  movementValues,
+  alignmentRows,
+  alignmentPeriod,
+  onToggleAlignmentRow,
+  onSelectAllAlignmentRows,
+  onJumpPrevious,
+  onJumpNext,
+  onSeek,
+  onClear,
+}) => {
+  const [showAlignmentsOnly, setShowAlignmentsOnly] = useState<boolean>(false);
+  const visibleEvents = showAlignmentsOnly ? events.filter((e) => e.isAlignment) : events;
+
+  const formatRows = (rows: number[]) => {
+    const labels = rows.slice(0, MAX_LISTED_ROWS).map((i) => movementValues[i]);
+    const rest = rows.length - MAX_LISTED_ROWS;
+    return labels.join(' ') + (rest > 0 ? ` +${rest}` : '');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-[10px] text-zinc-500 uppercase tracking-widest">
+        <div className="flex items-center gap-2">
+          <Activity size={12} className="text-rose-400" />
+          <span>Events</span>
+        </div>
+        <button
+          onClick={onClear}
+          disabled={events.length === 0}
+          className="p-1.5 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-all disabled:opacity-20"
+          title="Clear Log"
+        >
+          <Trash2 size={12} />
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-[9px] text-zinc-500 uppercase">
+          <span>Align Rows</span>
+          <button
+            onClick={onSelectAllAlignmentRows}
+            className={`px-1.5 rounded ${alignmentRows === null ? 'text-rose-400' : 'hover:text-zinc-300'}`}
+          >
+            All
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-1 max-h-16 overflow-y-auto">
+          {movementValues.map((v, rowIndex) => {
+            const isSelected = alignmentRows === null || alignmentRows.includes(rowIndex);
+            return (
+              <button
+                key={rowIndex}
+                onClick={() => onToggleAlignmentRow(rowIndex)}
+                className={`min-w-[1.5rem] px-1 py-0.5 rounded border text-[8px] font-bold transition-all ${
+                  isSelected
+                    ? 'bg-rose-500/20 text-rose-300 border-rose-500/40'
+                    : 'bg-zinc-800/40 border-white/5 text-zinc-600 hover:text-zinc-300'
+                }`}
+              >
+                {v}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <button
+          onClick={onJumpPrevious}
+          disabled={alignmentPeriod === null}
+          className="p-1.5 rounded-lg bg-zinc-800/40 border border-white/5 text-zinc-400 hover:text-white transition-all disabled:opacity-20"
+          title="Previous Alignment"
+        >
+          <ChevronLeft size={12} />
+        </button>
+        <div className="flex-1 text-center text-[9px] text-zinc-400 tabular-nums truncate">
+          {alignmentPeriod === null ? 'No alignment in range' : `Every ${alignmentPeriod.toLocaleString()}`}
+        </div>
+        <button
+          onClick={onJumpNext}
+          disabled={alignmentPeriod === null}
+          className="p-1.5 rounded-lg bg-zinc-800/40 border border-white/5 text-zinc-400 hover:text-white transition-all disabled:opacity-20"
+          title="Next Alignment"
+        >
+          <ChevronRight size={12} />
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-[9px] text-zinc-500 uppercase cursor-pointer">
+        <input
+          type="checkbox"
+          checked={showAlignmentsOnly}
+          onChange={(e) => setShowAlignmentsOnly(e.target.checked)}
+          className="accent-rose-500"
+        />
+        Alignments Only
+      </label>
+
+      <ul className="max-h-32 overflow-y-auto space-y-0.5 text-[9px] tabular-nums">
+        {visibleEvents.map((event, index) => (
+          <li key={`${event.n}-${index}`}>
+            <button
+              onClick={() => onSeek(event.n)}
+              className={`w-full flex items-center gap-2 px-2 py-0.5 rounded text-left hover:bg-zinc-800 ${
+                event.isAlignment ? 'text-rose-300 bg-rose-500/10' : 'text-zinc-400'
+              }`}
+            >
+              {event.isAlignment && <Sparkles size={10} className="shrink-0" />}
+              <span className="font-bold text-zinc-200">{event.n}</span>
+              <span className="truncate">{formatRows(event.rows)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
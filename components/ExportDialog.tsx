@@ -0,0 +1,177 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Film, X } from 'lucide-react';
+import { ExportFormat, ExportOptions } from '../types';
+import { ExportSceneSettings, MAX_EXPORT_SIZE, exportFrames, getExportFrameLimit, getExportFrameSteps } from '../utils/exporter';
+import { downloadBlob } from '../utils/download';
+import { clamp } from '../utils/math';
+
+interface ExportDialogProps {
+  currentStep: number;
+  speedMultiplier: number;
+  scene: ExportSceneSettings;
+  onClose: () => void;
+}
+
+const RESOLUTIONS = [
+  { name: '720p', width: 1280, height: 720 },
+  { name: '1080p', width: 1920, height: 1080 },
+  { name: '4K', width: 3840, height: 2160 },
+];
+
+const FORMATS: { id: ExportFormat; name: string }[] = [
+  { id: 'png', name: 'PNG Zip' },
+  { id: 'webm', name: 'WebM' },
+];
+
+const fieldClassName = 'w-full bg-zinc-800/50 text-zinc-100 text-xs font-mono px-2 py-1.5 rounded-lg border border-white/5 outline-none focus:border-indigo-500/50';
+
+const optionClassName = (isActive: boolean) => `flex-1 py-1.5 px-2 rounded-lg border text-[8px] uppercase font-bold transition-all ${
+  isActive
+    ? 'bg-zinc-100 text-zinc-950 border-white'
+    : 'bg-zinc-800/40 border-white/5 text-zinc-400 hover:bg-zinc-800'
+}`;
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ currentStep, speedMultiplier, scene, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(() => {
+    const fps = 60;
+    const startStep = Math.floor(currentStep);
+    return {
+      startStep,
+      endStep: startStep + 60,
+      fps,
+      // Match the current playback velocity (steps per ms)
+      stepsPerFrame: Number((speedMultiplier * 1000 / fps).toFixed(4)),
+      width: 1920,
+      height: 1080,
+      format: 'png',
+    };
+  });
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const frameCount = getExportFrameSteps(options).length;
+  const frameLimit = getExportFrameLimit(options);
+  const isExporting = progress !== null;
+
+  const setNumber = (key: keyof ExportOptions, value: string, min: number, max = Infinity) => {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed)) return;
+    setOptions((prev) => {
+      const next = { ...prev, [key]: clamp(parsed, min, max) };
+      // The range never runs backwards: End N follows Start N up
+      return { ...next, endStep: Math.max(next.startStep, next.endStep) };
+    });
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ done: 0, total: frameCount });
+
+    try {
+      const blob = await exportFrames(options, scene, (done, total) => setProgress({ done, total }), controller.signal);
+      const range = `${options.startStep}-${options.endStep}`;
+      downloadBlob(blob, `harmonic-${range}.${options.format === 'png' ? 'zip' : 'webm'}`);
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') setError((err as Error).message);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-zinc-950/90 border border-white/10 rounded-[2rem] p-6 w-96 space-y-4 font-mono shadow-2xl">
+        <div className="flex items-center justify-between text-[10px] text-zinc-400 uppercase tracking-widest">
+          <div className="flex items-center gap-2">
+            <Film size={12} className="text-indigo-400" />
+            <span>Export Frames</span>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-zinc-500 hover:text-white hover:bg-zinc-800" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-[9px] text-zinc-500 uppercase">
+          <label className="space-y-1">
+            <span>Start N</span>
+            <input type="number" min="0" value={options.startStep} onChange={(e) => setNumber('startStep', e.target.value, 0)} className={fieldClassName} />
+          </label>
+          <label className="space-y-1">
+            <span>End N</span>
+            <input type="number" min={options.startStep} value={options.endStep} onChange={(e) => setNumber('endStep', e.target.value, options.startStep)} className={fieldClassName} />
+          </label>
+          <label className="space-y-1">
+            <span>FPS</span>
+            <input type="number" min="1" max="120" value={options.fps} onChange={(e) => setNumber('fps', e.target.value, 1, 120)} className={fieldClassName} />
+          </label>
+          <label className="space-y-1">
+            <span>Steps / Frame</span>
+            <input type="number" min="0" step="0.01" value={options.stepsPerFrame} onChange={(e) => setNumber('stepsPerFrame', e.target.value, 0.0001)} className={fieldClassName} />
+          </label>
+          <label className="space-y-1">
+            <span>Width</span>
+            <input type="number" min="16" max={MAX_EXPORT_SIZE} value={options.width} onChange={(e) => setNumber('width', e.target.value, 16, MAX_EXPORT_SIZE)} className={fieldClassName} />
+          </label>
+          <label className="space-y-1">
+            <span>Height</span>
+            <input type="number" min="16" max={MAX_EXPORT_SIZE} value={options.height} onChange={(e) => setNumber('height', e.target.value, 16, MAX_EXPORT_SIZE)} className={fieldClassName} />
+          </label>
+        </div>
+
+        <div className="flex gap-1.5">
+          {RESOLUTIONS.map((r) => (
+            <button
+              key={r.name}
+              onClick={() => setOptions((prev) => ({ ...prev, width: r.width, height: r.height }))}
+              className={optionClassName(options.width === r.width && options.height === r.height)}
+            >
+              {r.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-1.5">
+          {FORMATS.map((f) => (
+            <button key={f.id} onClick={() => setOptions((prev) => ({ ...prev, format: f.id }))} className={optionClassName(options.format === f.id)}>
+              {f.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="text-[9px] text-zinc-500 uppercase">
+          {frameCount} frames · {(frameCount / options.fps).toFixed(1)}s
+          {frameCount >= frameLimit && <span className="text-amber-400"> · capped at {frameLimit}</span>}
+        </div>
+
+        {error && <div className="text-[9px] text-rose-400">{error}</div>}
+
+        {isExporting ? (
+          <div className="space-y-2">
+            <div className="h-1 bg-zinc-800 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+            </div>
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="w-full py-2 rounded-xl border border-white/10 text-[9px] uppercase font-bold text-zinc-300 hover:bg-zinc-800"
+            >
+              Cancel ({progress.done}/{progress.total})
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleExport}
+            className="w-full py-2 rounded-xl bg-indigo-600 text-white text-[9px] uppercase font-bold hover:bg-indigo-500 shadow-lg shadow-indigo-500/20"
+          >
+            Export
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
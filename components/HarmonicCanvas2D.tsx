@@ -0,0 +1,111 @@
+import React, { useRef, useEffect } from 'react';
+import { LayoutMode, MotionSettings, TailStyle } from '../types';
+import { drawFrame } from '../utils/canvasRenderer';
+import { FrameOverlay } from '../utils/overlays';
+import { Easing } from '../utils/easing';
+
+interface HarmonicCanvas2DProps {
+  currentStep: number;
+  movementValues: number[];
+  width: number;
+  height: number;
+  itemSize: number;
+  shouldWrap: boolean;
+  wrapModulus?: number;
+  isFollowEnabled: boolean;
+  isTailEnabled: boolean;
+  tailStyle: TailStyle;
+  rowColors: string[];
+  rowEasings: Easing[];
+  motion?: MotionSettings;
+  layoutMode?: LayoutMode;
+  focusX: number;
+  laneOffset?: number;
+  backgroundX: number;
+  badgeX: number;
+  badgeY?: number;
+  wrapMarkers?: number[];
+  pulsingRows: Set<number>;
+  overlay?: FrameOverlay;
+}
+
+/**
+ * Single-canvas 2D renderer. Draws the same rows, tails and N badge as the
+ * DOM renderer but without per-block elements, so it scales to thousands of
+ * rows.
+ */
+export const HarmonicCanvas2D: React.FC<HarmonicCanvas2DProps> = ({
+  currentStep,
+  movementValues,
+  width,
+  height,
+  itemSize,
+  shouldWrap,
+  wrapModulus,
+  isFollowEnabled,
+  isTailEnabled,
+  tailStyle,
+  rowColors,
+  rowEasings,
+  motion,
+  layoutMode,
+  focusX,
+  laneOffset,
+  backgroundX,
+  badgeX,
+  badgeY,
+  wrapMarkers,
+  pulsingRows,
+  overlay,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const dpr = Math.min(window.devicePixelRatio || 1, 2);
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+  }, [width, height]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = canvas.width / width;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    drawFrame(ctx, {
+      currentStep,
+      movementValues,
+      width,
+      height,
+      itemSize,
+      shouldWrap,
+      wrapModulus,
+      isFollowEnabled,
+      isTailEnabled,
+      tailStyle,
+      rowColors,
+      rowEasings,
+      motion,
+      layoutMode,
+      focusX,
+      laneOffset,
+      backgroundX,
+      badgeX,
+      badgeY,
+      wrapMarkers,
+      pulsingRows,
+      overlay,
+    });
+  }, [currentStep, movementValues, width, height, itemSize, shouldWrap, wrapModulus, isFollowEnabled, isTailEnabled, tailStyle, rowColors, rowEasings, motion, layoutMode, focusX, laneOffset, backgroundX, badgeX, badgeY, wrapMarkers, pulsingRows, overlay]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 z-10 pointer-events-none"
+      style={{ width: `${width}px`, height: `${height}px` }}
+    />
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { OscillatorConfig, OverlaySettings, TriggerEvent } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { OscillatorView } from './OscillatorView';
+import { useElementSize } from '../hooks/useElementSize';
+import { useStepClock } from '../hooks/useStepClock';
+import { sanitizeConfig } from '../utils/config';
+import { detectTriggerEvents, getAlignmentPeriod } from '../utils/events';
+import { getMovementValues } from '../utils/sequences';
+import { getRowEasings } from '../utils/easing';
+import { getRowColors, resolvePalette } from '../utils/palette';
+import { resolveTailStyle } from '../utils/tails';
+import { APP_BACKGROUND } from '../utils/canvasRenderer';
+import { SyncClock, systemClock } from '../utils/syncClock';
+
+// The canvas renderer draws everything itself, so embeds work without the app's stylesheet
+export const EMBED_DEFAULT_CONFIG: OscillatorConfig = { ...DEFAULT_CONFIG, viewMode: 'canvas' };
+
+export interface HarmonicOscillatorProps extends Partial<OscillatorConfig> {
+  isPlaying?: boolean; // Manual sync mode only
+  clock?: SyncClock;
+  onTrigger?: (event: TriggerEvent) => void;
+  onStep?: (n: number) => void; // Called whenever the integer part of N changes
+  overlays?: OverlaySettings;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * The oscillator without its control panel, sized to its container. Only the
+ * built-in palettes and tail styles are available, since custom ones live in
+ * the app's local storage.
+ */
+export const HarmonicOscillator: React.FC<HarmonicOscillatorProps> = ({
+  isPlaying = true,
+  clock = systemClock,
+  onTrigger,
+  onStep,
+  overlays,
+  className,
+  style,
+  ...options
+}) => {
+  const { ref, width, height } = useElementSize<HTMLDivElement>();
+
+  // Options arrive as a fresh object on every render; compare them by value
+  const optionsKey = JSON.stringify(options);
+  const config = useMemo(() => {
+    return sanitizeConfig(JSON.parse(optionsKey), EMBED_DEFAULT_CONFIG);
+  }, [optionsKey]);
+
+  const [currentStep, setCurrentStep] = useState<number>(config.currentStep);
+  const previousStepRef = useRef<number>(config.currentStep);
+  const callbacksRef = useRef({ onTrigger, onStep });
+  callbacksRef.current = { onTrigger, onStep };
+
+  useEffect(() => {
+    setCurrentStep(config.currentStep);
+  }, [config.currentStep]);
+
+  useStepClock(currentStep, setCurrentStep, { ...config, isPlaying }, clock);
+
+  const movementValues = useMemo(() => {
+    return getMovementValues(config.sequenceSource, config.rowCount, config.customSequence, config.rationalDenominator);
+  }, [config.sequenceSource, config.rowCount, config.customSequence, config.rationalDenominator]);
+
+  const rowEasings = useMemo(() => {
+    return getRowEasings(movementValues.length, config.easingType, config.bezierCurve, config.transitionWidth, config.rowTransitionWidths);
+  }, [movementValues, config.easingType, config.bezierCurve, config.transitionWidth, config.rowTransitionWidths]);
+
+  const tailStyle = useMemo(() => resolveTailStyle(config.tailType, []), [config.tailType]);
+
+  const motion = useMemo(() => {
+    return { model: config.motionModel, amplitude: config.motionAmplitude };
+  }, [config.motionModel, config.motionAmplitude]);
+
+  const rowColors = useMemo(() => {
+    return getRowColors(movementValues, resolvePalette(config.colorPalette, []), config.rowColors);
+  }, [movementValues, config.colorPalette, config.rowColors]);
+
+  const alignmentPeriod = useMemo(() => getAlignmentPeriod(movementValues), [movementValues]);
+
+  useEffect(() => {
+    const previousStep = previousStepRef.current;
+    previousStepRef.current = currentStep;
+    const { onTrigger: handleTrigger, onStep: handleStep } = callbacksRef.current;
+    if (handleStep && Math.floor(currentStep) !== Math.floor(previousStep)) handleStep(Math.floor(currentStep));
+    if (handleTrigger) detectTriggerEvents(previousStep, currentStep, movementValues, alignmentPeriod).forEach(handleTrigger);
+  }, [currentStep, movementValues, alignmentPeriod]);
+
+  return (
+    <div
+      ref={ref}
+      className={className}
+      style={{ position: 'relative', width: '100%', height: '100%', overflow: 'hidden', background: APP_BACKGROUND, ...style }}
+    >
+      {width > 0 && height > 0 && (
+        <OscillatorView
+          viewMode={config.viewMode}
+          currentStep={currentStep}
+          movementValues={movementValues}
+          width={width}
+          height={height}
+          shouldWrap={config.shouldWrap}
+          wrapModulus={config.wrapModulus}
+          isFollowEnabled={config.isFollowEnabled}
+          isTailEnabled={config.isTailEnabled}
+          tailStyle={tailStyle}
+          rowColors={rowColors}
+          rowEasings={rowEasings}
+          motion={motion}
+          layoutMode={config.layoutMode}
+          overlays={overlays}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { OscillatorConfig, TriggerEvent } from '../types';
+import { EMBED_DEFAULT_CONFIG, HarmonicOscillator } from './HarmonicOscillator';
+import { decodeConfig } from '../utils/permalink';
+
+export const ELEMENT_TAG_NAME = 'harmonic-oscillator';
+
+// Attribute values use the same text form as permalink parameters
+const ATTRIBUTES: Record<string, keyof OscillatorConfig> = {
+  'n': 'currentStep',
+  'row-count': 'rowCount',
+  'speed-multiplier': 'speedMultiplier',
+  'sync-mode': 'syncMode',
+  'bpm': 'bpm',
+  'steps-per-second': 'stepsPerSecond',
+  'color-palette': 'colorPalette',
+  'tail-type': 'tailType',
+  'tail': 'isTailEnabled',
+  'follow': 'isFollowEnabled',
+  'wrap': 'shouldWrap',
+  'wrap-modulus': 'wrapModulus',
+  'view-mode': 'viewMode',
+  'sequence': 'sequenceSource',
+  'easing': 'easingType',
+  'motion-model': 'motionModel',
+  'motion-amplitude': 'motionAmplitude',
+  'layout': 'layoutMode',
+};
+
+const BOOLEAN_ATTRIBUTES = ['tail', 'follow', 'wrap', 'playing'];
+
+/**
+ * `<harmonic-oscillator>`: the oscillator as a custom element that fills its
+ * own box (give it a height). Dispatches `trigger` events with a
+ * TriggerEvent as detail, and `step` events with `{ n }` whenever the integer
+ * part of N changes. Set `playing="false"` to pause manual playback.
+ */
+export class HarmonicOscillatorElement extends HTMLElement {
+  static observedAttributes = [...Object.keys(ATTRIBUTES), 'playing'];
+
+  private root: ReactDOM.Root | null = null;
+
+  connectedCallback() {
+    if (!this.style.display) this.style.display = 'block';
+    this.root = ReactDOM.createRoot(this);
+    this.renderOscillator();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback() {
+    this.renderOscillator();
+  }
+
+  // A bare boolean attribute (`<harmonic-oscillator wrap>`) means true
+  private readAttribute(name: string) {
+    const value = this.getAttribute(name);
+    return value === '' && BOOLEAN_ATTRIBUTES.includes(name) ? 'true' : value;
+  }
+
+  private renderOscillator() {
+    if (!this.root) return;
+    const values: Partial<Record<keyof OscillatorConfig, string>> = {};
+    Object.entries(ATTRIBUTES).forEach(([name, key]) => {
+      const value = this.readAttribute(name);
+      if (value !== null) values[key] = value;
+    });
+    const config = decodeConfig(values, EMBED_DEFAULT_CONFIG);
+    const playing = this.readAttribute('playing');
+
+    this.root.render(
+      <HarmonicOscillator
+        {...config}
+        isPlaying={playing !== 'false' && playing !== '0'}
+        onTrigger={(event: TriggerEvent) => this.dispatchEvent(new CustomEvent('trigger', { detail: event, bubbles: true }))}
+        onStep={(n: number) => this.dispatchEvent(new CustomEvent('step', { detail: { n }, bubbles: true }))}
+      />
+    );
+  }
+}
+
+export const defineHarmonicOscillatorElement = (tagName: string = ELEMENT_TAG_NAME) => {
+  if (!customElements.get(tagName)) customElements.define(tagName, HarmonicOscillatorElement);
+};
@@ -1,22 +1,43 @@
 import React, { useRef, useEffect } from 'react';
 import * as THREE from 'three';
+import { MotionSettings, TailStyle } from '../types';
+import {
+  DEFAULT_MOTION,
+  computeRowTrack,
+  getCameraOffset,
+  getMaxTailSamples,
+} from '../utils/kinematics';
+import { Easing } from '../utils/easing';
+import { DIVISOR_TINT } from '../utils/overlays';
 
 interface HarmonicScene3DProps {
   currentStep: number;
-  rowCount: number;
+  movementValues: number[];
   width: number;
   height: number;
   isFollowEnabled: boolean;
   isTailEnabled: boolean;
+  tailStyle: TailStyle;
+  rowColors: string[];
+  rowEasings: Easing[];
+  motion?: MotionSettings;
+  tintedRows?: Set<number>; // Heads drawn in the divisor tint
 }
 
+const BACKGROUND_COLOR = 0x070709;
+
 export const HarmonicScene3D: React.FC<HarmonicScene3DProps> = ({
   currentStep,
-  rowCount,
+  movementValues,
   width,
   height,
   isFollowEnabled,
   isTailEnabled,
+  tailStyle,
+  rowColors,
+  rowEasings,
+  motion = DEFAULT_MOTION,
+  tintedRows,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const requestRef = useRef<number>(0);
@@ -30,22 +51,24 @@ export const HarmonicScene3D: React.FC<HarmonicScene3DProps> = ({
   } | null>(null);
 
   // Layout Constants
-  const laneWidth = 12;
+  const unitLength = 2.5;
   const laneSpacing = 4;
-  const maxBlocksPerRow = isTailEnabled ? 40 : 1;
+  const rowCount = movementValues.length - 1;
+  const maxBlocksPerRow = isTailEnabled ? 1 + getMaxTailSamples(tailStyle, false) : 1;
 
   useEffect(() => {
-    if (!containerRef.current) return;
+    const container = containerRef.current;
+    if (!container) return;
 
     const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0x070709);
-    scene.fog = new THREE.FogExp2(0x070709, 0.01);
+    scene.background = new THREE.Color(BACKGROUND_COLOR);
+    scene.fog = new THREE.FogExp2(BACKGROUND_COLOR, 0.01);
 
     const camera = new THREE.PerspectiveCamera(60, width / height, 0.1, 1000);
     const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
     renderer.setSize(width, height);
     renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    containerRef.current.appendChild(renderer.domElement);
+    container.appendChild(renderer.domElement);
 
     const geometry = new THREE.BoxGeometry(2, 0.8, 1);
     const material = new THREE.MeshStandardMaterial({ 
@@ -73,8 +96,16 @@ export const HarmonicScene3D: React.FC<HarmonicScene3DProps> = ({
     sceneRef.current = { scene, camera, renderer, instancedMesh, grid, pointLight };
 
     return () => {
+      sceneRef.current = null;
+      scene.clear();
+      instancedMesh.dispose();
+      geometry.dispose();
+      material.dispose();
+      grid.geometry.dispose();
+      grid.material.dispose();
       renderer.dispose();
-      if (containerRef.current) containerRef.current.removeChild(renderer.domElement);
+      renderer.forceContextLoss();
+      if (renderer.domElement.parentNode === container) container.removeChild(renderer.domElement);
     };
   }, [rowCount, maxBlocksPerRow]);
 
@@ -92,46 +123,46 @@ export const HarmonicScene3D: React.FC<HarmonicScene3DProps> = ({
       const { scene, camera, renderer, instancedMesh, grid, pointLight } = sceneRef.current;
 
       const dummy = new THREE.Object3D();
+      const background = new THREE.Color(BACKGROUND_COLOR);
+      const rowColor = new THREE.Color();
+      const shiftedColor = new THREE.Color();
       const color = new THREE.Color();
       let instanceIdx = 0;
 
       const N = currentStep;
-      const transitionWidth = 0.5;
 
-      for (let v = 1; v <= rowCount + 1; v++) {
-        const movementValue = v === 1 ? 1 : v - 1;
-        const curCount = Math.floor(N / movementValue);
-        const nextTrig = (curCount + 1) * movementValue;
-        const dist = nextTrig - N;
-        
-        let animatedCount = curCount;
-        if (dist < transitionWidth) {
-          const t = 1 - (dist / transitionWidth);
-          const easedT = t * t * (3 - 2 * t);
-          animatedCount = curCount + easedT;
-        }
+      const placeBlock = (x: number, z: number, scale: number, opacity: number, hueShift = 0) => {
+        dummy.position.set(x, 0, z);
+        dummy.scale.setScalar(scale);
+        dummy.updateMatrix();
+        shiftedColor.copy(rowColor).offsetHSL(hueShift / 360, 0, 0);
+        // Instances share one opaque material, so fade towards the background instead
+        color.lerpColors(background, shiftedColor, opacity);
+        instancedMesh.setMatrixAt(instanceIdx, dummy.matrix);
+        instancedMesh.setColorAt(instanceIdx, color);
+        instanceIdx++;
+      };
 
-        const hue = (movementValue * 137.5) % 360;
-        color.setHSL(hue / 360, 0.7, 0.6);
-
-        const blocksToShow = isTailEnabled ? maxBlocksPerRow : 1;
-        for (let k = 0; k < blocksToShow; k++) {
-          const blockCount = animatedCount - k;
-          if (blockCount < 0) break;
-
-          const x = blockCount * laneWidth;
-          const y = (v - 1) * -laneSpacing;
-          const z = 0;
-
-          dummy.position.set(x, 0, y);
-          dummy.scale.set(1, 1, 1);
-          if (k > 0) {
-            dummy.scale.multiplyScalar(Math.max(0.1, 1 - k / blocksToShow));
-          }
-          dummy.updateMatrix();
-          instancedMesh.setMatrixAt(instanceIdx, dummy.matrix);
-          instancedMesh.setColorAt(instanceIdx, color);
-          instanceIdx++;
+      for (let v = 1; v <= rowCount + 1; v++) {
+        const rowIndex = v - 1;
+        const movementValue = movementValues[rowIndex];
+        const { head, tail } = computeRowTrack({
+          currentStep: N,
+          movementValue,
+          rowIndex,
+          motion,
+          easing: rowEasings[rowIndex],
+          tailStyle: isTailEnabled ? tailStyle : undefined,
+        });
+        const z = rowIndex * -laneSpacing;
+
+        rowColor.setStyle(tintedRows?.has(rowIndex) ? DIVISOR_TINT : rowColors[rowIndex]);
+        placeBlock(head * unitLength, z, 1, 1);
+        rowColor.setStyle(rowColors[rowIndex]);
+
+        for (const sample of tail) {
+          const x = sample.displacement * unitLength + sample.jitter * unitLength * 0.2;
+          placeBlock(x, z, sample.scale, sample.opacity, sample.hueShift);
         }
       }
 
@@ -139,16 +170,8 @@ export const HarmonicScene3D: React.FC<HarmonicScene3DProps> = ({
       instancedMesh.instanceMatrix.needsUpdate = true;
       if (instancedMesh.instanceColor) instancedMesh.instanceColor.needsUpdate = true;
 
-      // Track leader (v=1)
-      const curCountL = Math.floor(N);
-      const distL = (curCountL + 1) - N;
-      let animCountL = curCountL;
-      if (distL < transitionWidth) {
-        const t = 1 - (distL / transitionWidth);
-        const easedT = t * t * (3 - 2 * t);
-        animCountL = curCountL + easedT;
-      }
-      const focusX = animCountL * laneWidth;
+      // Track leader (v=1), or the swing centre of the oscillating models
+      const focusX = getCameraOffset(N, unitLength, rowEasings[0], motion);
 
       if (isFollowEnabled) {
         camera.position.x = focusX - 40;
@@ -169,7 +192,7 @@ export const HarmonicScene3D: React.FC<HarmonicScene3DProps> = ({
 
     requestRef.current = requestAnimationFrame(update);
     return () => cancelAnimationFrame(requestRef.current);
-  }, [currentStep, rowCount, isFollowEnabled, isTailEnabled]);
+  }, [currentStep, movementValues, isFollowEnabled, isTailEnabled, tailStyle, rowColors, rowEasings, motion, tintedRows]);
 
   return <div ref={containerRef} className="absolute inset-0 z-0" />;
 };
\ No newline at end of file
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Waves } from 'lucide-react';
+import { OscillatorConfig } from '../types';
+import { MAX_MOTION_AMPLITUDE, MIN_MOTION_AMPLITUDE, MOTION_MODELS } from '../constants';
+
+export type MotionConfig = Pick<OscillatorConfig, 'motionModel' | 'motionAmplitude'>;
+
+interface MotionPanelProps extends MotionConfig {
+  onChange: (patch: Partial<MotionConfig>) => void;
+}
+
+const optionClassName = (isActive: boolean) => `py-1.5 px-1 rounded-lg border text-[8px] uppercase font-bold transition-all ${
+  isActive
+    ? 'bg-violet-500/20 text-violet-400 border-violet-500/40'
+    : 'bg-zinc-800/40 border-white/5 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+}`;
+
+export const MotionPanel: React.FC<MotionPanelProps> = React.memo(({ motionModel, motionAmplitude, onChange }) => {
+  const hasAmplitude = motionModel === 'sinusoidal' || motionModel === 'pendulum';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-[10px] text-zinc-500 uppercase tracking-widest">
+        <Waves size={12} className="text-violet-400" />
+        <span>Motion</span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1">
+        {MOTION_MODELS.map((m) => (
+          <button key={m.id} onClick={() => onChange({ motionModel: m.id })} className={optionClassName(motionModel === m.id)}>
+            {m.name}
+          </button>
+        ))}
+      </div>
+
+      {hasAmplitude && (
+        <div className="space-y-1 text-[9px] text-zinc-500 uppercase">
+          <div className="flex justify-between">
+            <span>Amplitude</span>
+            <span className="text-zinc-300">{motionAmplitude.toFixed(1)} N</span>
+          </div>
+          <input
+            type="range" min={MIN_MOTION_AMPLITUDE} max={MAX_MOTION_AMPLITUDE} step="0.5"
+            value={motionAmplitude}
+            onChange={(e) => onChange({ motionAmplitude: parseFloat(e.target.value) })}
+            className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-violet-500"
+          />
+        </div>
+      )}
+    </div>
+  );
+});
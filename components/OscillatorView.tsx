@@ -0,0 +1,328 @@
+import React, { useMemo } from 'react';
+import { LayoutMode, MotionSettings, OverlaySettings, TailStyle, ViewMode, ViewTransform } from '../types';
+import { NumberRow } from './NumberRow';
+import { HarmonicScene3D } from './HarmonicScene3D';
+import { HarmonicCanvas2D } from './HarmonicCanvas2D';
+import { ChipLayer } from './ChipLayer';
+import { DEFAULT_MOTION, getFollowFocusX } from '../utils/kinematics';
+import { getPulsingRows } from '../utils/events';
+import { formatMovementValue } from '../utils/sequences';
+import { Easing } from '../utils/easing';
+import { DEFAULT_OVERLAYS, buildFrameOverlay } from '../utils/overlays';
+import { WRAP_MARKER_COLOR, getFrameGeometry, getLaneGridShift, hasRulerLabels } from '../utils/canvasRenderer';
+import { panView, zoomView } from '../utils/view';
+import { useViewGestures } from '../hooks/useViewGestures';
+
+interface OscillatorViewProps {
+  viewMode: ViewMode;
+  currentStep: number;
+  movementValues: number[];
+  width: number;
+  height: number;
+  shouldWrap: boolean;
+  wrapModulus?: number; // Columns per wrap lap; 0 wraps at the view width
+  isFollowEnabled: boolean;
+  isTailEnabled: boolean;
+  tailStyle: TailStyle;
+  rowColors: string[];
+  rowEasings: Easing[];
+  motion?: MotionSettings;
+  layoutMode?: LayoutMode;
+  overlays?: OverlaySettings;
+  view?: ViewTransform;
+  onViewChange?: (update: (view: ViewTransform) => ViewTransform) => void; // Enables the zoom and pan gestures
+}
+
+/**
+ * The visualization itself, without any controls: one of the three
+ * renderers plus the grid and the floating N badge, laid out to fill
+ * `width` x `height`. With `onViewChange`, the 2D lanes can be zoomed and
+ * panned by mouse and touch.
+ */
+export const OscillatorView: React.FC<OscillatorViewProps> = ({
+  viewMode,
+  currentStep,
+  movementValues,
+  width,
+  height,
+  shouldWrap,
+  wrapModulus = 0,
+  isFollowEnabled,
+  isTailEnabled,
+  tailStyle,
+  rowColors,
+  rowEasings,
+  motion = DEFAULT_MOTION,
+  layoutMode,
+  overlays = DEFAULT_OVERLAYS,
+  view,
+  onViewChange,
+}) => {
+  const totalSlots = movementValues.length;
+  // The 3D scene lays out its own lanes
+  const frameLayout: LayoutMode = viewMode === '3d' || !layoutMode ? 'lanes' : layoutMode;
+  const isVertical = frameLayout === 'vertical';
+  // The 3D camera and the rings always fit the whole view
+  const isViewAdjustable = viewMode !== '3d' && frameLayout !== 'polar';
+  const frameView = isViewAdjustable ? view : undefined;
+
+  const followerRows = useMemo(() => {
+    return Array.from({ length: movementValues.length - 1 }, (_, i) => i + 1);
+  }, [movementValues]);
+
+  const pulsingRows = useMemo(() => {
+    return new Set(getPulsingRows(currentStep, movementValues));
+  }, [currentStep, movementValues]);
+
+  const geometry = useMemo(() => {
+    return getFrameGeometry(currentStep, { movementValues, width, height, shouldWrap, wrapModulus, isFollowEnabled, rowEasings, motion, layoutMode: frameLayout }, frameView);
+  }, [currentStep, movementValues, width, height, shouldWrap, wrapModulus, isFollowEnabled, rowEasings, motion, frameLayout, frameView]);
+
+  // A panned camera counts as following: it holds still wherever it was dragged
+  const { itemSize, isFollowEnabled: isCameraFollowing, focusX, laneOffset = 0, backgroundX, badgeY, wrapMarkers = [] } = geometry;
+  const badgeX = viewMode === '3d' ? width / 2 : geometry.badgeX;
+
+  const overlay = useMemo(() => {
+    return buildFrameOverlay(overlays, {
+      currentStep,
+      movementValues,
+      rowColors,
+      itemSize,
+      wrapWidth: width,
+      wrapModulus,
+      shouldWrap,
+      isFollowEnabled: isCameraFollowing,
+      focusX,
+      viewportWidth: width,
+      layoutMode: frameLayout,
+    });
+  }, [overlays, currentStep, movementValues, rowColors, itemSize, width, wrapModulus, shouldWrap, isCameraFollowing, focusX, frameLayout]);
+
+  const showRulerLabels = hasRulerLabels(overlay.rulerTicks);
+
+  // Gestures work along and across the lanes, which swap axes in the vertical layout
+  const trackLength = isVertical ? height : width;
+  const viewBounds = { rowCount: movementValues.length, laneSpan: isVertical ? width : height };
+  const gestureRef = useViewGestures<HTMLDivElement>({
+    onPan: (dx, dy) => {
+      const cameraFocus = getFollowFocusX({
+        itemSize,
+        wrapWidth: trackLength,
+        wrapModulus,
+        shouldWrap,
+        isFollowEnabled: isCameraFollowing,
+        focusX,
+        viewportWidth: trackLength,
+      }) / itemSize;
+      onViewChange?.((prev) => panView(prev, isVertical ? dy : dx, isVertical ? dx : dy, viewBounds, cameraFocus));
+    },
+    onZoom: (factor, x, y) => {
+      onViewChange?.((prev) => zoomView(prev, factor, viewBounds, isVertical ? x : y));
+    },
+  });
+
+  return (
+    <>
+      {viewMode === '3d' && (
+        <HarmonicScene3D
+          currentStep={currentStep}
+          movementValues={movementValues}
+          width={width}
+          height={height}
+          isFollowEnabled={isFollowEnabled}
+          isTailEnabled={isTailEnabled}
+          tailStyle={tailStyle}
+          rowColors={rowColors}
+          rowEasings={rowEasings}
+          motion={motion}
+          tintedRows={overlay.tintedRows}
+        />
+      )}
+
+      {viewMode === 'canvas' && (
+        <HarmonicCanvas2D
+          currentStep={currentStep}
+          movementValues={movementValues}
+          width={width}
+          height={height}
+          itemSize={itemSize}
+          shouldWrap={shouldWrap}
+          wrapModulus={wrapModulus}
+          isFollowEnabled={isCameraFollowing}
+          isTailEnabled={isTailEnabled}
+          tailStyle={tailStyle}
+          rowColors={rowColors}
+          rowEasings={rowEasings}
+          motion={motion}
+          layoutMode={frameLayout}
+          focusX={focusX}
+          laneOffset={laneOffset}
+          backgroundX={backgroundX}
+          badgeX={badgeX}
+          badgeY={badgeY}
+          wrapMarkers={wrapMarkers}
+          pulsingRows={pulsingRows}
+          overlay={overlay}
+        />
+      )}
+
+      {viewMode === '2d' && frameLayout === 'lanes' && (
+        <div 
+          className="absolute top-0 opacity-[0.03] pointer-events-none will-change-transform"
+          style={{
+            left: `-${itemSize}px`,
+            right: `-${itemSize}px`,
+            bottom: `-${itemSize}px`,
+            backgroundImage: `linear-gradient(#fff 1px, transparent 1px), linear-gradient(90deg, #fff 1px, transparent 1px)`,
+            backgroundSize: `${itemSize}px ${itemSize}px`,
+            transform: `translate(${backgroundX}px, ${getLaneGridShift(laneOffset, itemSize) - itemSize}px)`,
+          }}
+        />
+      )}
+
+      {viewMode === '2d' && frameLayout === 'lanes' && wrapMarkers.map((x) => (
+        <div
+          key={x}
+          className="absolute top-0 bottom-0 w-px pointer-events-none"
+          style={{ left: x - 0.5, backgroundColor: WRAP_MARKER_COLOR }}
+        />
+      ))}
+    
+      <div className="absolute top-0 left-0 w-96 h-96 bg-indigo-500/10 blur-[120px] rounded-full pointer-events-none" />
+      <div className="absolute bottom-0 right-0 w-[500px] h-[500px] bg-emerald-500/5 blur-[150px] rounded-full pointer-events-none" />
+
+      {viewMode !== 'canvas' && (
+        <div 
+          className="absolute z-50 transition-transform duration-75 ease-out will-change-transform flex flex-col items-center pointer-events-none"
+          style={{
+            left: 0,
+            top: badgeY === undefined ? 9 : badgeY - itemSize / 2,
+            height: `${itemSize}px`,
+            width: '1px', 
+            transform: `translateX(${badgeX}px)`,
+            justifyContent: 'center'
+          }}
+        >
+          <div className="relative flex flex-col items-center gap-0">
+            <div className="bg-zinc-950/80 backdrop-blur-xl border border-indigo-500/40 px-4 py-1.5 rounded shadow-[0_0_30px_rgba(99,102,241,0.2)] flex items-center justify-center">
+              <span className="text-xl font-black text-indigo-400 font-mono tabular-nums leading-none">
+                {Math.floor(currentStep).toString()}
+              </span>
+            </div>
+            {badgeY === undefined && <div className="w-[1px] h-3 bg-gradient-to-b from-indigo-500/50 to-transparent" />}
+            {overlay.badgeNotes.length > 0 && (
+              <div className="absolute top-full mt-0.5 flex flex-col items-center gap-0.5">
+                {overlay.badgeNotes.map((note) => (
+                  <span key={note} className="bg-zinc-950/80 px-1.5 rounded-[3px] text-[11px] leading-4 font-bold font-mono text-indigo-400 whitespace-nowrap">
+                    {note}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {viewMode === '2d' && overlay.rulerTicks.length > 0 && (
+        <div className="absolute top-0 left-0 w-full h-5 z-40 overflow-hidden pointer-events-none opacity-80" style={{ color: overlay.rulerColor }}>
+          {overlay.rulerTicks.map(({ n, x }) => (
+            <div key={n} className="absolute top-0 left-0" style={{ transform: `translateX(${x}px)` }}>
+              <div className="absolute top-0 -left-[0.5px] w-px h-1.5 bg-current" />
+              {showRulerLabels && (
+                <span className="absolute top-[7px] -translate-x-1/2 text-[9px] leading-none font-bold font-mono tabular-nums whitespace-nowrap">
+                  {formatMovementValue(n)}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {viewMode === '2d' && frameLayout !== 'lanes' && (
+        <ChipLayer
+          frame={{
+            currentStep,
+            movementValues,
+            width,
+            height,
+            shouldWrap,
+            wrapModulus,
+            isFollowEnabled,
+            isTailEnabled,
+            tailStyle,
+            rowColors,
+            rowEasings,
+            motion,
+            layoutMode: frameLayout,
+            ...geometry,
+            pulsingRows,
+            overlay,
+          }}
+        />
+      )}
+
+      {viewMode === '2d' && frameLayout === 'lanes' && (
+        <div className="relative w-full h-full overflow-hidden">
+          <div 
+            className="relative w-full h-full"
+            style={{ transform: `translateY(${itemSize - laneOffset}px)` }}
+          >
+            <NumberRow
+              label={formatMovementValue(movementValues[0])}
+              movementValue={movementValues[0]}
+              rowIndex={0}
+              isPulsing={pulsingRows.has(0)}
+              currentStep={currentStep}
+              itemSize={itemSize}
+              wrapWidth={width}
+              wrapModulus={wrapModulus}
+              shouldWrap={shouldWrap}
+              totalRows={totalSlots}
+              isTailEnabled={isTailEnabled} 
+              tailStyle={tailStyle}
+              isFollowEnabled={isCameraFollowing}
+              color={rowColors[0]}
+              isTinted={overlay.tintedRows.has(0)}
+              focusX={focusX}
+              viewportWidth={width}
+              easing={rowEasings[0]}
+              motion={motion}
+            />
+        
+            {followerRows.map((val) => (
+              <NumberRow
+                key={`follower-${val}`}
+                label={formatMovementValue(movementValues[val])}
+                movementValue={movementValues[val]}
+                rowIndex={val}
+                isPulsing={pulsingRows.has(val)}
+                currentStep={currentStep}
+                itemSize={itemSize}
+                wrapWidth={width}
+                wrapModulus={wrapModulus}
+                shouldWrap={shouldWrap}
+                totalRows={totalSlots}
+                isTailEnabled={isTailEnabled}
+                tailStyle={tailStyle}
+                isFollowEnabled={isCameraFollowing}
+                color={rowColors[val]}
+                isTinted={overlay.tintedRows.has(val)}
+                focusX={focusX}
+                viewportWidth={width}
+                easing={rowEasings[val]}
+                motion={motion}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {onViewChange && (
+        <div
+          ref={gestureRef}
+          className={`absolute inset-0 z-30 touch-none ${isViewAdjustable ? 'cursor-grab active:cursor-grabbing' : 'pointer-events-none'}`}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Sigma } from 'lucide-react';
+import { OverlaySettings } from '../types';
+import { OVERLAY_TOGGLES } from '../utils/overlays';
+import { formatMovementValue } from '../utils/sequences';
+
+interface OverlayPanelProps {
+  overlays: OverlaySettings;
+  movementValues: number[];
+  onChange: (overlays: OverlaySettings) => void;
+}
+
+const fieldClassName = 'w-full bg-zinc-800/50 text-zinc-100 text-xs font-mono px-2 py-1.5 rounded-lg border border-white/5 outline-none focus:border-amber-500/50';
+
+export const OverlayPanel: React.FC<OverlayPanelProps> = React.memo(({ overlays, movementValues, onChange }) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-[10px] text-zinc-500 uppercase tracking-widest">
+        <Sigma size={12} className="text-amber-400" />
+        <span>Overlays</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1.5">
+        {OVERLAY_TOGGLES.map(({ key, name }) => (
+          <button
+            key={key}
+            onClick={() => onChange({ ...overlays, [key]: !overlays[key] })}
+            className={`py-1.5 px-2 rounded-lg border text-[8px] uppercase font-bold transition-all ${
+              overlays[key]
+                ? 'bg-amber-500/10 border-amber-500/30 text-amber-400'
+                : 'bg-zinc-800/40 border-white/5 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      {overlays.isRulerVisible && (
+        <label className="flex items-center gap-2 text-[9px] text-zinc-500 uppercase">
+          <span className="shrink-0">Ruler Row</span>
+          <select
+            value={Math.min(overlays.rulerRow, movementValues.length - 1)}
+            onChange={(e) => onChange({ ...overlays, rulerRow: Number(e.target.value) })}
+            className={fieldClassName}
+          >
+            {movementValues.map((v, rowIndex) => (
+              <option key={rowIndex} value={rowIndex}>
+                Multiples of {formatMovementValue(v)}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { Check, Palette, Plus, SlidersHorizontal, Trash2, X } from 'lucide-react';
+import { HueFunction, PaletteDefinition } from '../types';
+import { HUE_FUNCTIONS, PALETTES } from '../constants';
+import { createPaletteId, resolvePalette, toHexColor } from '../utils/palette';
+import { formatMovementValue } from '../utils/sequences';
+
+interface PalettePanelProps {
+  colorPalette: string;
+  customPalettes: PaletteDefinition[];
+  draft: PaletteDefinition | null;
+  rowColors: Record<number, string>;
+  movementValues: number[];
+  colors: string[]; // Resolved colour of every row, including overrides
+  onSelect: (colorPalette: string) => void;
+  onCustomPalettesChange: (palettes: PaletteDefinition[]) => void;
+  onDraftChange: (draft: PaletteDefinition | null) => void;
+  onRowColorsChange: (rowColors: Record<number, string>) => void;
+}
+
+type NumericPaletteKey = 'hueStart' | 'hueRange' | 'saturation' | 'lightness' | 'lightnessRange';
+
+const PARAMETERS: { key: NumericPaletteKey; name: string; max: number }[] = [
+  { key: 'hueStart', name: 'Hue Start', max: 360 },
+  { key: 'hueRange', name: 'Hue Range', max: 360 },
+  { key: 'saturation', name: 'Saturation', max: 100 },
+  { key: 'lightness', name: 'Lightness', max: 100 },
+  { key: 'lightnessRange', name: 'Lightness Spread', max: 100 },
+];
+
+// Rows shown in the preview strip
+const PREVIEW_ROWS = 16;
+// Colour given to a newly added explicit colour
+const NEW_COLOR = '#ffffff';
+
+const optionClassName = (isActive: boolean) => `flex-1 py-1.5 px-2 rounded-lg border text-[8px] uppercase font-bold transition-all ${
+  isActive
+    ? 'bg-zinc-100 text-zinc-950 border-white'
+    : 'bg-zinc-800/40 border-white/5 text-zinc-400 hover:bg-zinc-800'
+}`;
+
+const iconButtonClassName = 'p-1.5 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-all disabled:opacity-20 disabled:cursor-not-allowed';
+
+const colorInputClassName = 'w-5 h-5 p-0 bg-transparent border border-white/10 rounded cursor-pointer';
+
+export const PalettePanel: React.FC<PalettePanelProps> = React.memo(({
+  colorPalette,
+  customPalettes,
+  draft,
+  rowColors,
+  movementValues,
+  colors,
+  onSelect,
+  onCustomPalettesChange,
+  onDraftChange,
+  onRowColorsChange,
+}) => {
+  const [name, setName] = useState<string>('');
+  const palettes = [...PALETTES, ...customPalettes];
+  const selectedPalette = resolvePalette(colorPalette, customPalettes);
+
+  const handleSelect = (id: string) => {
+    onSelect(id);
+    onDraftChange(null);
+  };
+
+  const startEditing = () => {
+    setName(selectedPalette.isCustom ? selectedPalette.name : `${selectedPalette.name} 2`);
+    onDraftChange({ ...selectedPalette });
+  };
+
+  const updateDraft = (patch: Partial<PaletteDefinition>) => {
+    if (draft) onDraftChange({ ...draft, ...patch });
+  };
+
+  const setDraftColors = (next: string[]) => {
+    if (!draft) return;
+    const { colors: _, ...rest } = draft;
+    onDraftChange(next.length > 0 ? { ...rest, colors: next } : rest);
+  };
+
+  const handleSaveAsNew = () => {
+    if (!draft || !name.trim()) return;
+    const palette: PaletteDefinition = { ...draft, id: createPaletteId(), name: name.trim(), isCustom: true };
+    onCustomPalettesChange([...customPalettes, palette]);
+    onSelect(palette.id);
+    onDraftChange(null);
+  };
+
+  const handleUpdate = () => {
+    if (!draft || !name.trim()) return;
+    onCustomPalettesChange(customPalettes.map((p) => (p.id === draft.id ? { ...draft, name: name.trim() } : p)));
+    onDraftChange(null);
+  };
+
+  const handleDelete = () => {
+    onCustomPalettesChange(customPalettes.filter((p) => p.id !== selectedPalette.id));
+    handleSelect(PALETTES[0].id);
+  };
+
+  const setRowColor = (rowIndex: number, color: string | null) => {
+    const next = { ...rowColors };
+    if (color) {
+      next[rowIndex] = color;
+    } else {
+      delete next[rowIndex];
+    }
+    onRowColorsChange(next);
+  };
+
+  const overrideCount = Object.keys(rowColors).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-[10px] text-zinc-500 uppercase tracking-widest">
+        <div className="flex items-center gap-2">
+          <Palette size={12} className="text-pink-400" />
+          <span>Follower Palette</span>
+        </div>
+        <div className="flex items-center gap-1">
+          {selectedPalette.isCustom && !draft && (
+            <button onClick={handleDelete} className={iconButtonClassName} title="Delete Custom Palette">
+              <Trash2 size={12} />
+            </button>
+          )}
+          <button
+            onClick={() => (draft ? onDraftChange(null) : startEditing())}
+            className={`${iconButtonClassName} ${draft ? 'text-pink-400' : ''}`}
+            title={draft ? 'Discard Changes' : 'Edit Palette'}
+          >
+            {draft ? <X size={12} /> : <SlidersHorizontal size={12} />}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {palettes.map((p) => (
+          <button key={p.id} onClick={() => handleSelect(p.id)} className={optionClassName(colorPalette === p.id)}>
+            {p.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex h-2 rounded overflow-hidden border border-white/5" title="Preview of the first rows">
+        {colors.slice(0, PREVIEW_ROWS).map((color, rowIndex) => (
+          <div key={rowIndex} className="flex-1" style={{ backgroundColor: color }} />
+        ))}
+      </div>
+
+      {draft && (
+        <div className="space-y-2 p-2 rounded-xl bg-zinc-900/60 border border-white/5 text-[9px] text-zinc-500 uppercase">
+          <div className="flex gap-1">
+            {HUE_FUNCTIONS.map((f) => (
+              <button
+                key={f.id}
+                onClick={() => updateDraft({ hueFunction: f.id as HueFunction })}
+                disabled={!!draft.colors}
+                className={`${optionClassName(draft.hueFunction === f.id)} disabled:opacity-20`}
+              >
+                {f.name}
+              </button>
+            ))}
+          </div>
+
+          {!draft.colors && PARAMETERS.map((p) => (
+            <div key={p.key} className="space-y-0.5">
+              <div className="flex justify-between">
+                <span>{p.name}</span>
+                <span className="text-zinc-300">{draft[p.key]}</span>
+              </div>
+              <input
+                type="range" min="0" max={p.max} step="1"
+                value={draft[p.key]}
+                onChange={(e) => updateDraft({ [p.key]: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-pink-500"
+              />
+            </div>
+          ))}
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span>Explicit Colours</span>
+              <button
+                onClick={() => setDraftColors([...(draft.colors ?? []), NEW_COLOR])}
+                className={iconButtonClassName}
+                title="Add Colour"
+              >
+                <Plus size={12} />
+              </button>
+            </div>
+            {draft.colors && (
+              <div className="flex flex-wrap gap-1">
+                {draft.colors.map((color, index) => (
+                  <div key={index} className="flex items-center">
+                    <input
+                      type="color"
+                      value={color}
+                      onChange={(e) => setDraftColors(draft.colors!.map((c, i) => (i === index ? e.target.value : c)))}
+                      className={colorInputClassName}
+                    />
+                    <button
+                      onClick={() => setDraftColors(draft.colors!.filter((_, i) => i !== index))}
+                      className="text-zinc-600 hover:text-rose-400"
+                      title="Remove Colour"
+                    >
+                      <X size={10} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span>Leader Colour</span>
+            <input
+              type="color"
+              value={toHexColor(draft.leaderColor)}
+              onChange={(e) => updateDraft({ leaderColor: e.target.value })}
+              className={colorInputClassName}
+            />
+          </div>
+
+          <div className="flex items-center gap-1.5 normal-case">
+            <input
+              type="text"
+              value={name}
+              placeholder="Palette name"
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveAsNew()}
+              className="flex-1 min-w-0 bg-zinc-800/50 text-zinc-100 text-[10px] font-mono px-2 py-1.5 rounded-lg border border-white/5 outline-none focus:border-pink-500/50"
+            />
+            {draft.isCustom && (
+              <button onClick={handleUpdate} disabled={!name.trim()} className={iconButtonClassName} title="Update This Palette">
+                <Check size={14} />
+              </button>
+            )}
+            <button
+              onClick={handleSaveAsNew}
+              disabled={!name.trim()}
+              className="px-2 py-1.5 rounded-lg bg-pink-500/20 text-pink-400 border border-pink-500/40 text-[8px] uppercase font-bold disabled:opacity-20"
+              title="Save as a New Custom Palette"
+            >
+              Save New
+            </button>
+          </div>
+        </div>
+      )}
+
+      <details className="text-[9px] text-zinc-500">
+        <summary className="uppercase cursor-pointer hover:text-zinc-300">
+          Per-Row Colours{overrideCount > 0 ? ` (${overrideCount})` : ''}
+        </summary>
+        <ul className="mt-1 max-h-32 overflow-y-auto space-y-0.5">
+          {movementValues.map((v, rowIndex) => (
+            <li key={rowIndex} className="flex items-center gap-2">
+              <span className="w-10 font-bold text-zinc-300 truncate">{formatMovementValue(v)}</span>
+              <input
+                type="color"
+                value={toHexColor(colors[rowIndex])}
+                onChange={(e) => setRowColor(rowIndex, e.target.value)}
+                className={colorInputClassName}
+              />
+              {rowColors[rowIndex] && (
+                <button onClick={() => setRowColor(rowIndex, null)} className="text-zinc-600 hover:text-rose-400" title="Use Palette Colour">
+                  <X size={10} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+});
@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Check, Download, FolderOpen, Pencil, Save, Trash2, Upload, X } from 'lucide-react';
+import { OscillatorConfig, Preset } from '../types';
+import {
+  loadPresets,
+  parsePresetFile,
+  savePresets,
+  serializePresetFile,
+} from '../utils/presets';
+import { downloadBlob } from '../utils/download';
+import { createId } from '../utils/ids';
+
+interface PresetPanelProps {
+  getConfig: () => OscillatorConfig; // Read when saving, so N changes do not re-render the panel
+  onApply: (config: OscillatorConfig) => void;
+}
+
+const inputClassName = 'flex-1 min-w-0 bg-zinc-800/50 text-zinc-100 text-[10px] font-mono px-2 py-1.5 rounded-lg border border-white/5 outline-none focus:border-indigo-500/50';
+const iconButtonClassName = 'p-1.5 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-all disabled:opacity-20 disabled:cursor-not-allowed';
+
+export const PresetPanel: React.FC<PresetPanelProps> = React.memo(({ getConfig, onApply }) => {
+  const [presets, setPresets] = useState<Preset[]>(() => loadPresets());
+  const [newName, setNewName] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState<string>('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    savePresets(presets);
+  }, [presets]);
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) return;
+    setPresets((prev) => [...prev, { id: createId(), name, config: getConfig(), createdAt: Date.now() }]);
+    setNewName('');
+  };
+
+  const startRename = (preset: Preset) => {
+    setEditingId(preset.id);
+    setEditingName(preset.name);
+  };
+
+  const commitRename = () => {
+    const name = editingName.trim();
+    if (name) {
+      setPresets((prev) => prev.map((p) => (p.id === editingId ? { ...p, name } : p)));
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    setPresets((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializePresetFile(presets)], { type: 'application/json' });
+    downloadBlob(blob, 'harmonic-presets.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePresetFile(await file.text());
+      setPresets((prev) => [...prev, ...imported.map((p) => ({ ...p, id: createId() }))]);
+      setImportError(null);
+    } catch (err) {
+      setImportError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-[10px] text-zinc-500 uppercase tracking-widest">
+        <div className="flex items-center gap-2">
+          <FolderOpen size={12} className="text-teal-400" />
+          <span>Presets</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => fileInputRef.current?.click()} className={iconButtonClassName} title="Import Presets">
+            <Upload size={12} />
+          </button>
+          <button onClick={handleExport} disabled={presets.length === 0} className={iconButtonClassName} title="Export Presets">
+            <Download size={12} />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <input
+          type="text"
+          value={newName}
+          placeholder="Preset name"
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          className={inputClassName}
+        />
+        <button onClick={handleSave} disabled={!newName.trim()} className={iconButtonClassName} title="Save Current Setup">
+          <Save size={14} />
+        </button>
+      </div>
+
+      {importError && (
+        <div className="text-[9px] text-rose-400 font-mono">{importError}</div>
+      )}
+
+      {presets.length > 0 && (
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+          {presets.map((preset) => (
+            <li key={preset.id} className="flex items-center gap-1 bg-zinc-800/30 border border-white/5 rounded-lg pl-2 pr-1 py-0.5">
+              {editingId === preset.id ? (
+                <>
+                  <input
+                    type="text"
+                    value={editingName}
+                    autoFocus
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className={inputClassName}
+                  />
+                  <button onClick={commitRename} className={iconButtonClassName} title="Confirm Rename">
+                    <Check size={12} />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className={iconButtonClassName} title="Cancel Rename">
+                    <X size={12} />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onApply(preset.config)}
+                    className="flex-1 min-w-0 text-left text-[10px] text-zinc-300 hover:text-white truncate py-1"
+                    title={`Load "${preset.name}"`}
+                  >
+                    {preset.name}
+                  </button>
+                  <button onClick={() => startRename(preset)} className={iconButtonClassName} title="Rename Preset">
+                    <Pencil size={12} />
+                  </button>
+                  <button onClick={() => handleDelete(preset.id)} className={iconButtonClassName} title="Delete Preset">
+                    <Trash2 size={12} />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
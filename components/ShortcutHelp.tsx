@@ -0,0 +1,99 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Keyboard, RotateCcw, X } from 'lucide-react';
+import { Command, Keymap } from '../types';
+import { DEFAULT_KEYMAP, getBindings, getKeyCombo, rebindCommand } from '../utils/keymap';
+
+interface ShortcutHelpProps {
+  commands: Command[];
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onClose: () => void;
+}
+
+/** Help sheet listing every command's bindings; clicking a binding records a new key. */
+export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ commands, keymap, onChange, onClose }) => {
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const bindings = useMemo(() => getBindings(keymap), [keymap]);
+
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, Command[]>();
+    commands.forEach((c) => byGroup.set(c.group, [...(byGroup.get(c.group) ?? []), c]));
+    return Array.from(byGroup.entries());
+  }, [commands]);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        if (recordingId) setRecordingId(null);
+        else onClose();
+        return;
+      }
+      if (!recordingId) return;
+      const combo = getKeyCombo(e);
+      if (!combo) return;
+      e.preventDefault();
+      onChange(rebindCommand(keymap, recordingId, combo));
+      setRecordingId(null);
+    }
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [recordingId, keymap, onChange, onClose]);
+
+  return (
+    <div className="absolute inset-0 z-[70] flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-[40rem] max-w-[92vw] max-h-[85vh] flex flex-col bg-zinc-950/95 border border-white/10 rounded-[2rem] p-6 shadow-2xl font-mono"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between text-[10px] text-zinc-400 uppercase tracking-widest mb-4">
+          <div className="flex items-center gap-2">
+            <Keyboard size={12} className="text-indigo-400" />
+            <span>Keyboard Shortcuts</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onChange(DEFAULT_KEYMAP)}
+              className="p-1.5 rounded-lg text-zinc-500 hover:text-white hover:bg-zinc-800"
+              title="Restore Default Keys"
+            >
+              <RotateCcw size={14} />
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-lg text-zinc-500 hover:text-white hover:bg-zinc-800" title="Close">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto grid grid-cols-2 gap-x-6 gap-y-4">
+          {groups.map(([group, groupCommands]) => (
+            <div key={group} className="space-y-1">
+              <div className="text-[9px] text-zinc-600 uppercase tracking-widest">{group}</div>
+              {groupCommands.map((command) => (
+                <div key={command.id} className="flex items-center justify-between gap-2 text-[10px] text-zinc-400">
+                  <span className="truncate">{command.name}</span>
+                  <button
+                    onClick={() => setRecordingId(command.id)}
+                    className="flex gap-1 shrink-0"
+                    title="Click, then press a new key"
+                  >
+                    {recordingId === command.id ? (
+                      <kbd className="px-1.5 py-0.5 rounded bg-indigo-500/20 border border-indigo-500/40 text-[8px] text-indigo-300">Press a key</kbd>
+                    ) : bindings[command.id] ? (
+                      bindings[command.id].map((combo) => (
+                        <kbd key={combo} className="px-1.5 py-0.5 rounded bg-zinc-800 border border-white/10 text-[8px] text-zinc-300 hover:border-indigo-500/40">{combo}</kbd>
+                      ))
+                    ) : (
+                      <kbd className="px-1.5 py-0.5 rounded border border-dashed border-white/10 text-[8px] text-zinc-600 hover:border-indigo-500/40">Unbound</kbd>
+                    )}
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Camera, X } from 'lucide-react';
+import { SnapshotFormat, SnapshotOptions } from '../types';
+import { SnapshotSceneSettings, exportSnapshot } from '../utils/snapshot';
+import { downloadBlob } from '../utils/download';
+
+interface SnapshotDialogProps {
+  currentStep: number;
+  viewWidth: number;
+  viewHeight: number;
+  scene: SnapshotSceneSettings;
+  onClose: () => void;
+}
+
+const PIXEL_RATIOS = [1, 2, 3, 4];
+
+const FORMATS: { id: SnapshotFormat; name: string }[] = [
+  { id: 'svg', name: 'SVG' },
+  { id: 'png', name: 'PNG' },
+];
+
+const fieldClassName = 'w-full bg-zinc-800/50 text-zinc-100 text-xs font-mono px-2 py-1.5 rounded-lg border border-white/5 outline-none focus:border-indigo-500/50';
+
+const optionClassName = (isActive: boolean) => `flex-1 py-1.5 px-2 rounded-lg border text-[8px] uppercase font-bold transition-all ${
+  isActive
+    ? 'bg-zinc-100 text-zinc-950 border-white'
+    : 'bg-zinc-800/40 border-white/5 text-zinc-400 hover:bg-zinc-800'
+}`;
+
+export const SnapshotDialog: React.FC<SnapshotDialogProps> = ({ currentStep, viewWidth, viewHeight, scene, onClose }) => {
+  const [options, setOptions] = useState<SnapshotOptions>(() => ({
+    width: Math.round(viewWidth),
+    height: Math.round(viewHeight),
+    pixelRatio: 2,
+    format: 'svg',
+    isGridVisible: true,
+    isBadgeVisible: true,
+  }));
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sizes = [
+    { name: 'View', width: Math.round(viewWidth), height: Math.round(viewHeight) },
+    { name: '1080p', width: 1920, height: 1080 },
+    { name: 'Slide', width: 1600, height: 900 },
+    { name: 'Square', width: 1080, height: 1080 },
+  ];
+
+  const setNumber = (key: 'width' | 'height', value: string) => {
+    const parsed = parseFloat(value);
+    setOptions((prev) => ({ ...prev, [key]: Number.isFinite(parsed) ? Math.max(16, parsed) : prev[key] }));
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      const blob = await exportSnapshot(currentStep, options, scene);
+      downloadBlob(blob, `harmonic-${Math.floor(currentStep)}.${options.format}`);
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="bg-zinc-950/90 border border-white/10 rounded-[2rem] p-6 w-96 space-y-4 font-mono shadow-2xl">
+        <div className="flex items-center justify-between text-[10px] text-zinc-400 uppercase tracking-widest">
+          <div className="flex items-center gap-2">
+            <Camera size={12} className="text-indigo-400" />
+            <span>Snapshot N = {Math.floor(currentStep)}</span>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg text-zinc-500 hover:text-white hover:bg-zinc-800" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="flex gap-1.5">
+          {FORMATS.map((f) => (
+            <button key={f.id} onClick={() => setOptions((prev) => ({ ...prev, format: f.id }))} className={optionClassName(options.format === f.id)}>
+              {f.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-[9px] text-zinc-500 uppercase">
+          <label className="space-y-1">
+            <span>Width</span>
+            <input type="number" min="16" value={options.width} onChange={(e) => setNumber('width', e.target.value)} className={fieldClassName} />
+          </label>
+          <label className="space-y-1">
+            <span>Height</span>
+            <input type="number" min="16" value={options.height} onChange={(e) => setNumber('height', e.target.value)} className={fieldClassName} />
+          </label>
+        </div>
+
+        <div className="flex gap-1.5">
+          {sizes.map((s) => (
+            <button
+              key={s.name}
+              onClick={() => setOptions((prev) => ({ ...prev, width: s.width, height: s.height }))}
+              className={optionClassName(options.width === s.width && options.height === s.height)}
+            >
+              {s.name}
+            </button>
+          ))}
+        </div>
+
+        {options.format === 'png' && (
+          <div className="space-y-1 text-[9px] text-zinc-500 uppercase">
+            <span>Pixel Density</span>
+            <div className="flex gap-1.5">
+              {PIXEL_RATIOS.map((ratio) => (
+                <button key={ratio} onClick={() => setOptions((prev) => ({ ...prev, pixelRatio: ratio }))} className={optionClassName(options.pixelRatio === ratio)}>
+                  {ratio}x
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-1.5">
+          <button onClick={() => setOptions((prev) => ({ ...prev, isGridVisible: !prev.isGridVisible }))} className={optionClassName(options.isGridVisible)}>
+            Grid
+          </button>
+          <button onClick={() => setOptions((prev) => ({ ...prev, isBadgeVisible: !prev.isBadgeVisible }))} className={optionClassName(options.isBadgeVisible)}>
+            N Badge
+          </button>
+        </div>
+
+        <div className="text-[9px] text-zinc-500 uppercase">
+          {options.format === 'png'
+            ? `${Math.round(options.width * options.pixelRatio)} x ${Math.round(options.height * options.pixelRatio)} px`
+            : `${options.width} x ${options.height} vector`}
+          {' '}· 2D layout
+        </div>
+
+        {error && <div className="text-[9px] text-rose-400">{error}</div>}
+
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="w-full py-2 rounded-xl bg-indigo-600 text-white text-[9px] uppercase font-bold hover:bg-indigo-500 shadow-lg shadow-indigo-500/20 disabled:opacity-50"
+        >
+          {isSaving ? 'Rendering...' : 'Save Snapshot'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React from 'react';
+import { Music, Volume2, VolumeX } from 'lucide-react';
+import { PitchMode, ScaleName, SonificationSettings } from '../types';
+import { SCALES, getRowFrequency } from '../utils/audio';
+import { formatMovementValue } from '../utils/sequences';
+
+interface SoundPanelProps {
+  settings: SonificationSettings;
+  movementValues: number[];
+  onChange: (settings: SonificationSettings) => void;
+}
+
+const PITCH_MODES: { id: PitchMode; name: string }[] = [
+  { id: 'harmonic', name: 'Harmonic' },
+  { id: 'scale', name: 'Scale' },
+];
+
+const WAVEFORMS: OscillatorType[] = ['sine', 'triangle', 'square', 'sawtooth'];
+
+const optionClassName = (isActive: boolean) => `py-1.5 px-1 rounded-lg border text-[8px] uppercase font-bold transition-all ${
+  isActive
+    ? 'bg-fuchsia-500/20 text-fuchsia-400 border-fuchsia-500/40'
+    : 'bg-zinc-800/40 border-white/5 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+}`;
+
+const sliderClassName = 'w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-fuchsia-500';
+
+export const SoundPanel: React.FC<SoundPanelProps> = React.memo(({ settings, movementValues, onChange }) => {
+  const update = (patch: Partial<SonificationSettings>) => onChange({ ...settings, ...patch });
+
+  const toggleMute = (rowIndex: number) => {
+    const mutedRows = settings.mutedRows.includes(rowIndex)
+      ? settings.mutedRows.filter((i) => i !== rowIndex)
+      : [...settings.mutedRows, rowIndex];
+    update({ mutedRows });
+  };
+
+  const setRowFrequency = (rowIndex: number, value: string) => {
+    const rowFrequencies = { ...settings.rowFrequencies };
+    const frequency = parseFloat(value);
+    if (frequency > 0) {
+      rowFrequencies[rowIndex] = frequency;
+    } else {
+      delete rowFrequencies[rowIndex];
+    }
+    update({ rowFrequencies });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-[10px] text-zinc-500 uppercase tracking-widest">
+        <div className="flex items-center gap-2">
+          <Music size={12} className="text-fuchsia-400" />
+          <span>Sound</span>
+        </div>
+        <button
+          onClick={() => update({ isEnabled: !settings.isEnabled })}
+          className={`p-1.5 rounded-lg border transition-all ${
+            settings.isEnabled ? 'bg-fuchsia-500/10 border-fuchsia-500/30 text-fuchsia-400' : 'bg-zinc-800/30 border-white/5 text-zinc-600'
+          }`}
+          title="Toggle Sound"
+        >
+          {settings.isEnabled ? <Volume2 size={12} /> : <VolumeX size={12} />}
+        </button>
+      </div>
+
+      {settings.isEnabled && (
+        <div className="space-y-3 text-[9px] text-zinc-500 uppercase">
+          <div className="space-y-1">
+            <div className="flex justify-between">
+              <span>Volume</span>
+              <span className="text-zinc-300">{Math.round(settings.volume * 100)}%</span>
+            </div>
+            <input
+              type="range" min="0" max="1" step="0.01"
+              value={settings.volume}
+              onChange={(e) => update({ volume: parseFloat(e.target.value) })}
+              className={sliderClassName}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-1.5">
+            {PITCH_MODES.map((mode) => (
+              <button key={mode.id} onClick={() => update({ pitchMode: mode.id })} className={optionClassName(settings.pitchMode === mode.id)}>
+                {mode.name}
+              </button>
+            ))}
+          </div>
+
+          {settings.pitchMode === 'scale' && (
+            <div className="grid grid-cols-4 gap-1.5">
+              {(Object.keys(SCALES) as ScaleName[]).map((scale) => (
+                <button key={scale} onClick={() => update({ scale })} className={optionClassName(settings.scale === scale)}>
+                  {scale.slice(0, 5)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-4 gap-1.5">
+            {WAVEFORMS.map((waveform) => (
+              <button key={waveform} onClick={() => update({ waveform })} className={optionClassName(settings.waveform === waveform)}>
+                {waveform.slice(0, 4)}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span>Base Hz</span>
+            <input
+              type="number" min="20" max="2000"
+              value={settings.baseFrequency}
+              onChange={(e) => update({ baseFrequency: Math.min(2000, Math.max(20, parseFloat(e.target.value) || 20)) })}
+              className="bg-zinc-800/50 text-zinc-100 text-xs font-mono w-16 py-1 rounded-lg border border-white/5 outline-none text-center focus:border-fuchsia-500/50"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between">
+              <span>Attack</span>
+              <span className="text-zinc-300">{Math.round(settings.attack * 1000)}ms</span>
+            </div>
+            <input
+              type="range" min="0.001" max="0.2" step="0.001"
+              value={settings.attack}
+              onChange={(e) => update({ attack: parseFloat(e.target.value) })}
+              className={sliderClassName}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between">
+              <span>Release</span>
+              <span className="text-zinc-300">{Math.round(settings.release * 1000)}ms</span>
+            </div>
+            <input
+              type="range" min="0.02" max="2" step="0.01"
+              value={settings.release}
+              onChange={(e) => update({ release: parseFloat(e.target.value) })}
+              className={sliderClassName}
+            />
+          </div>
+
+          <ul className="max-h-32 overflow-y-auto space-y-0.5 normal-case">
+            {movementValues.map((v, rowIndex) => {
+              const isMuted = settings.mutedRows.includes(rowIndex);
+              return (
+                <li key={rowIndex} className="flex items-center gap-2">
+                  <button
+                    onClick={() => toggleMute(rowIndex)}
+                    className={`p-1 rounded ${isMuted ? 'text-zinc-600' : 'text-fuchsia-400'}`}
+                    title={isMuted ? 'Unmute Row' : 'Mute Row'}
+                  >
+                    {isMuted ? <VolumeX size={10} /> : <Volume2 size={10} />}
+                  </button>
+                  <span className="w-10 font-bold text-zinc-300 truncate">{formatMovementValue(v)}</span>
+                  <input
+                    type="number" min="0"
+                    value={settings.rowFrequencies[rowIndex] ?? ''}
+                    placeholder={getRowFrequency(rowIndex, v, { ...settings, rowFrequencies: {} }).toFixed(1)}
+                    onChange={(e) => setRowFrequency(rowIndex, e.target.value)}
+                    className="flex-1 min-w-0 bg-zinc-800/50 text-zinc-100 text-[10px] font-mono px-2 py-0.5 rounded border border-white/5 outline-none focus:border-fuchsia-500/50"
+                  />
+                  <span>Hz</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+});
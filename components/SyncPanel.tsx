@@ -0,0 +1,112 @@
+import React from 'react';
+import { Clock, MousePointer2 } from 'lucide-react';
+import { OscillatorConfig, SyncMode } from '../types';
+import { MAX_BPM, MAX_STEPS_PER_SECOND, MIN_BPM, MIN_STEPS_PER_SECOND, SYNC_MODES } from '../constants';
+
+export type SyncConfig = Pick<OscillatorConfig, 'syncMode' | 'bpm' | 'stepsPerSecond' | 'syncEpoch'>;
+
+interface SyncPanelProps extends SyncConfig {
+  onChange: (patch: Partial<SyncConfig>) => void;
+  onTap: () => void;
+  onSetEpochToNow: () => void;
+}
+
+const numberInputClassName = 'bg-zinc-800/50 text-zinc-100 text-xs font-mono w-20 py-1 rounded-lg border border-white/5 outline-none text-center focus:border-sky-500/50';
+
+const actionClassName = 'px-2 py-1 rounded-lg bg-sky-500/20 text-sky-400 border border-sky-500/40 text-[8px] uppercase font-bold active:scale-95 transition-all';
+
+// <input type="datetime-local"> works in local time without a zone suffix
+const toLocalDateTime = (ms: number) => {
+  const date = new Date(ms);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+export const SyncPanel: React.FC<SyncPanelProps> = React.memo(({
+  syncMode,
+  bpm,
+  stepsPerSecond,
+  syncEpoch,
+  onChange,
+  onTap,
+  onSetEpochToNow,
+}) => {
+  const setNumber = (key: 'bpm' | 'stepsPerSecond', value: string, min: number, max: number) => {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed)) onChange({ [key]: Math.min(max, Math.max(min, parsed)) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-[10px] text-zinc-500 uppercase tracking-widest">
+        <Clock size={12} className="text-sky-400" />
+        <span>N-Sync Mode</span>
+      </div>
+      <div className="grid grid-cols-4 gap-1.5">
+        {SYNC_MODES.map((mode: SyncMode) => (
+          <button
+            key={mode}
+            onClick={() => onChange({ syncMode: mode })}
+            className={`py-1.5 px-1 rounded-lg border text-[8px] uppercase font-bold transition-all flex items-center justify-center gap-1 ${
+              syncMode === mode
+                ? 'bg-sky-500/20 text-sky-400 border-sky-500/40 shadow-[0_0_10px_rgba(56,189,248,0.1)]'
+                : 'bg-zinc-800/40 border-white/5 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+            }`}
+          >
+            {mode === 'manual' && <MousePointer2 size={10} />}
+            {mode}
+          </button>
+        ))}
+      </div>
+
+      {syncMode === 'bpm' && (
+        <div className="flex items-center justify-between gap-2 text-[9px] text-zinc-500 uppercase">
+          <span>Beats / Min</span>
+          <div className="flex items-center gap-1.5">
+            <input
+              type="number" min={MIN_BPM} max={MAX_BPM} step="1"
+              value={bpm}
+              onChange={(e) => setNumber('bpm', e.target.value, MIN_BPM, MAX_BPM)}
+              className={numberInputClassName}
+            />
+            <button onClick={onTap} className={actionClassName} title="Tap repeatedly to set the tempo">
+              Tap
+            </button>
+          </div>
+        </div>
+      )}
+
+      {syncMode === 'rate' && (
+        <div className="flex items-center justify-between gap-2 text-[9px] text-zinc-500 uppercase">
+          <span>Steps / Sec</span>
+          <input
+            type="number" min={MIN_STEPS_PER_SECOND} max={MAX_STEPS_PER_SECOND} step="1"
+            value={stepsPerSecond}
+            onChange={(e) => setNumber('stepsPerSecond', e.target.value, MIN_STEPS_PER_SECOND, MAX_STEPS_PER_SECOND)}
+            className={numberInputClassName}
+          />
+        </div>
+      )}
+
+      {syncMode === 'epoch' && (
+        <div className="space-y-1 text-[9px] text-zinc-500 uppercase">
+          <span>N = Seconds Since</span>
+          <div className="flex items-center gap-1.5">
+            <input
+              type="datetime-local" step="1"
+              value={toLocalDateTime(syncEpoch)}
+              onChange={(e) => {
+                const time = new Date(e.target.value).getTime();
+                if (Number.isFinite(time)) onChange({ syncEpoch: time });
+              }}
+              className="flex-1 min-w-0 bg-zinc-800/50 text-zinc-100 text-[10px] font-mono px-2 py-1 rounded-lg border border-white/5 outline-none focus:border-sky-500/50 [color-scheme:dark]"
+            />
+            <button onClick={onSetEpochToNow} className={actionClassName}>
+              Now
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
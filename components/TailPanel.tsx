@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Check, SlidersHorizontal, Trash2, Wind, X } from 'lucide-react';
+import { FalloffType, TailStyle, TailType } from '../types';
+import { FALLOFF_TYPES, TAIL_STYLES } from '../constants';
+import { MAX_TAIL_LENGTH, MAX_TAIL_STRIDE, createTailId, resolveTailStyle } from '../utils/tails';
+
+interface TailPanelProps {
+  tailType: TailType;
+  isTailEnabled: boolean;
+  customTails: TailStyle[];
+  draft: TailStyle | null;
+  onSelect: (tailType: TailType) => void;
+  onCustomTailsChange: (tails: TailStyle[]) => void;
+  onDraftChange: (draft: TailStyle | null) => void;
+}
+
+type NumericTailKey = 'length' | 'stride' | 'opacity' | 'scale' | 'minScale' | 'falloffKnee' | 'jitter' | 'colorShift';
+
+const PARAMETERS: { key: NumericTailKey; name: string; min: number; max: number; step: number }[] = [
+  { key: 'length', name: 'Length', min: 1, max: MAX_TAIL_LENGTH, step: 1 },
+  { key: 'stride', name: 'Stride', min: 1, max: MAX_TAIL_STRIDE, step: 1 },
+  { key: 'opacity', name: 'Opacity', min: 0, max: 1, step: 0.01 },
+  { key: 'scale', name: 'Scale', min: 0.05, max: 2, step: 0.05 },
+  { key: 'minScale', name: 'Min Scale', min: 0, max: 2, step: 0.05 },
+  { key: 'falloffKnee', name: 'Knee', min: 0.01, max: 1, step: 0.01 },
+  { key: 'jitter', name: 'Jitter', min: 0, max: 10, step: 0.1 },
+  { key: 'colorShift', name: 'Hue Shift', min: -360, max: 360, step: 5 },
+];
+
+const optionClassName = (isActive: boolean) => `flex-1 py-1.5 px-1 rounded-lg border text-[7px] uppercase font-bold transition-all ${
+  isActive
+    ? 'bg-amber-500/20 text-amber-400 border-amber-500/40 shadow-[0_0_10px_rgba(245,158,11,0.1)]'
+    : 'bg-zinc-800/40 border-white/5 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+} disabled:opacity-20`;
+
+const iconButtonClassName = 'p-1.5 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-all disabled:opacity-20 disabled:cursor-not-allowed';
+
+export const TailPanel: React.FC<TailPanelProps> = React.memo(({
+  tailType,
+  isTailEnabled,
+  customTails,
+  draft,
+  onSelect,
+  onCustomTailsChange,
+  onDraftChange,
+}) => {
+  const [name, setName] = useState<string>('');
+  const styles = [...TAIL_STYLES, ...customTails];
+  const selectedStyle = resolveTailStyle(tailType, customTails);
+
+  const handleSelect = (id: TailType) => {
+    onSelect(id);
+    onDraftChange(null);
+  };
+
+  const startEditing = () => {
+    setName(selectedStyle.isCustom ? selectedStyle.name : `${selectedStyle.name} 2`);
+    onDraftChange({ ...selectedStyle });
+  };
+
+  const updateDraft = (patch: Partial<TailStyle>) => {
+    if (!draft) return;
+    // A wrap-specific length would silently override an edited length
+    onDraftChange({ ...draft, ...patch, ...('length' in patch ? { wrapLength: undefined } : {}) });
+  };
+
+  const handleSaveAsNew = () => {
+    if (!draft || !name.trim()) return;
+    const style: TailStyle = { ...draft, id: createTailId(), name: name.trim(), isCustom: true };
+    onCustomTailsChange([...customTails, style]);
+    onSelect(style.id);
+    onDraftChange(null);
+  };
+
+  const handleUpdate = () => {
+    if (!draft || !name.trim()) return;
+    onCustomTailsChange(customTails.map((t) => (t.id === draft.id ? { ...draft, name: name.trim() } : t)));
+    onDraftChange(null);
+  };
+
+  const handleDelete = () => {
+    onCustomTailsChange(customTails.filter((t) => t.id !== selectedStyle.id));
+    handleSelect(TAIL_STYLES[0].id);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-[10px] text-zinc-500 uppercase tracking-widest">
+        <div className="flex items-center gap-2">
+          <Wind size={12} className="text-amber-400" />
+          <span>Tail Animation</span>
+        </div>
+        <div className="flex items-center gap-1">
+          {selectedStyle.isCustom && !draft && (
+            <button onClick={handleDelete} className={iconButtonClassName} title="Delete Custom Tail">
+              <Trash2 size={12} />
+            </button>
+          )}
+          <button
+            onClick={() => (draft ? onDraftChange(null) : startEditing())}
+            disabled={!isTailEnabled}
+            className={`${iconButtonClassName} ${draft ? 'text-amber-400' : ''}`}
+            title={draft ? 'Discard Changes' : 'Edit Tail Style'}
+          >
+            {draft ? <X size={12} /> : <SlidersHorizontal size={12} />}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {styles.map((t) => (
+          <button
+            key={t.id}
+            onClick={() => handleSelect(t.id)}
+            disabled={!isTailEnabled}
+            className={optionClassName(tailType === t.id)}
+          >
+            {t.name}
+          </button>
+        ))}
+      </div>
+
+      {draft && isTailEnabled && (
+        <div className="space-y-2 p-2 rounded-xl bg-zinc-900/60 border border-white/5 text-[9px] text-zinc-500 uppercase">
+          {PARAMETERS.map((p) => (
+            <div key={p.key} className="space-y-0.5">
+              <div className="flex justify-between">
+                <span>{p.name}</span>
+                <span className="text-zinc-300">{draft[p.key]}</span>
+              </div>
+              <input
+                type="range" min={p.min} max={p.max} step={p.step}
+                value={draft[p.key]}
+                onChange={(e) => updateDraft({ [p.key]: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-amber-500"
+              />
+            </div>
+          ))}
+
+          {(['opacityFalloff', 'scaleFalloff'] as const).map((key) => (
+            <div key={key} className="space-y-0.5">
+              <span>{key === 'opacityFalloff' ? 'Opacity Falloff' : 'Scale Falloff'}</span>
+              <div className="flex gap-1">
+                {FALLOFF_TYPES.map((falloff: FalloffType) => (
+                  <button key={falloff} onClick={() => updateDraft({ [key]: falloff })} className={optionClassName(draft[key] === falloff)}>
+                    {falloff.slice(0, 5)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-1.5 normal-case">
+            <input
+              type="text"
+              value={name}
+              placeholder="Tail name"
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveAsNew()}
+              className="flex-1 min-w-0 bg-zinc-800/50 text-zinc-100 text-[10px] font-mono px-2 py-1.5 rounded-lg border border-white/5 outline-none focus:border-amber-500/50"
+            />
+            {draft.isCustom && (
+              <button onClick={handleUpdate} disabled={!name.trim()} className={iconButtonClassName} title="Update This Tail">
+                <Check size={14} />
+              </button>
+            )}
+            <button
+              onClick={handleSaveAsNew}
+              disabled={!name.trim()}
+              className="px-2 py-1.5 rounded-lg bg-amber-500/20 text-amber-400 border border-amber-500/40 text-[8px] uppercase font-bold disabled:opacity-20"
+              title="Save as a New Custom Tail"
+            >
+              Save New
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
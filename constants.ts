@@ -1,3 +1,172 @@
+import {
+  BezierCurve,
+  EasingType,
+  FalloffType,
+  HueFunction,
+  LayoutMode,
+  MotionModel,
+  OscillatorConfig,
+  PaletteDefinition,
+  SequenceSource,
+  SyncMode,
+  TailStyle,
+  ViewMode,
+} from './types';
+
 export const ITEM_SIZE = 40; // Height in pixels for each number row
 export const ANIMATION_SPEED_MULTIPLIER = 0.05; // Speed factor for "Play" mode
-export const MAX_STEP = 10000;
\ No newline at end of file
+export const MAX_STEP = 10000;
+export const MAX_DOM_ROWS = 100; // Row limit for the DOM and 3D renderers
+export const MAX_CANVAS_ROWS = 2000; // Row limit for the canvas renderer
+
+export const MIN_SPEED = 0.001; // Slowest velocity magnitude (steps per ms) in manual mode
+export const MAX_SPEED = 5000; // Fastest velocity magnitude (5M steps per second)
+
+export const LEADER_COLOR = 'hsl(250, 70%, 60%)';
+
+const BASE_PALETTE: Omit<PaletteDefinition, 'id' | 'name'> = {
+  hueFunction: 'golden',
+  hueStart: 0,
+  hueRange: 360,
+  saturation: 70,
+  lightness: 60,
+  lightnessRange: 0,
+  leaderColor: LEADER_COLOR,
+};
+
+export const PALETTES: PaletteDefinition[] = [
+  { ...BASE_PALETTE, id: 'harmonic', name: 'Harmonic' },
+  { ...BASE_PALETTE, id: 'neon', name: 'Neon', hueStart: 280, hueRange: 60, saturation: 90, lightness: 65 },
+  { ...BASE_PALETTE, id: 'forest', name: 'Forest', hueStart: 120, hueRange: 80, saturation: 60, lightness: 55 },
+  { ...BASE_PALETTE, id: 'gold', name: 'Gold', hueStart: 35, hueRange: 40, saturation: 85, lightness: 60 },
+  { ...BASE_PALETTE, id: 'monochrome', name: 'Mono', hueRange: 0, saturation: 0, lightness: 70, lightnessRange: 30 },
+  {
+    ...BASE_PALETTE, id: 'viridis', name: 'Viridis', leaderColor: '#fde725',
+    colors: ['#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b'],
+  },
+  // Okabe-Ito without its black, which would vanish on the dark background
+  {
+    ...BASE_PALETTE, id: 'okabe-ito', name: 'Okabe-Ito', leaderColor: '#f0f0f0',
+    colors: ['#e69f00', '#56b4e9', '#009e73', '#f0e442', '#0072b2', '#d55e00', '#cc79a7'],
+  },
+];
+
+export const HUE_FUNCTIONS: { id: HueFunction; name: string }[] = [
+  { id: 'golden', name: 'Golden' },
+  { id: 'row', name: 'By Row' },
+  { id: 'value', name: 'Sweep' },
+];
+
+const BASE_TAIL_STYLE: Omit<TailStyle, 'id' | 'name'> = {
+  length: 40,
+  stride: 1,
+  opacity: 0.4,
+  opacityFalloff: 'linear',
+  scale: 1,
+  scaleFalloff: 'none',
+  minScale: 0,
+  falloffKnee: 0.25,
+  jitter: 0,
+  colorShift: 0,
+};
+
+export const TAIL_STYLES: TailStyle[] = [
+  { ...BASE_TAIL_STYLE, id: 'classic', name: 'Classic', wrapLength: 80 },
+  { ...BASE_TAIL_STYLE, id: 'ghost', name: 'Ghost', length: 20, opacity: 0.2 },
+  // Sharp drop off after the first 10 blocks
+  { ...BASE_TAIL_STYLE, id: 'echo', name: 'Echo', length: 60, opacity: 0.25, opacityFalloff: 'step', falloffKnee: 10 / 60 },
+  // Shrinks as it goes back
+  { ...BASE_TAIL_STYLE, id: 'stepped', name: 'Stepped', length: 100, stride: 3, scaleFalloff: 'linear', minScale: 0.6 },
+  { ...BASE_TAIL_STYLE, id: 'glitch', name: 'Glitch', length: 30, jitter: 1 },
+  { ...BASE_TAIL_STYLE, id: 'comet', name: 'Comet', length: 24, opacity: 0.8, opacityFalloff: 'exponential', scaleFalloff: 'linear', minScale: 0.25, colorShift: 40 },
+  { ...BASE_TAIL_STYLE, id: 'dotted', name: 'Dotted', stride: 2, opacity: 0.5, scale: 0.35, minScale: 0.35 },
+  { ...BASE_TAIL_STYLE, id: 'heatmap', name: 'Heatmap', length: 50, opacity: 0.6, colorShift: -150 },
+];
+
+export const FALLOFF_TYPES: FalloffType[] = ['none', 'linear', 'step', 'exponential'];
+
+export const SEQUENCE_SOURCES: { id: SequenceSource; name: string }[] = [
+  { id: 'consecutive', name: '1..N' },
+  { id: 'primes', name: 'Primes' },
+  { id: 'fibonacci', name: 'Fibonacci' },
+  { id: 'powers', name: '2^k' },
+  { id: 'rational', name: 'k/d' },
+  { id: 'custom', name: 'Custom' },
+];
+
+export const MAX_RATIONAL_DENOMINATOR = 100;
+
+export const SYNC_MODES: SyncMode[] = ['manual', 'seconds', 'ms', 'minutes', 'hours', 'bpm', 'rate', 'epoch'];
+
+export const MIN_BPM = 1;
+export const MAX_BPM = 1000;
+export const MIN_STEPS_PER_SECOND = 0.01;
+export const MAX_STEPS_PER_SECOND = 1000000;
+
+export const VIEW_MODES: ViewMode[] = ['2d', 'canvas', '3d'];
+
+export const LAYOUT_MODES: { id: LayoutMode; name: string }[] = [
+  { id: 'lanes', name: 'Lanes' },
+  { id: 'vertical', name: 'Vertical' },
+  { id: 'polar', name: 'Rings' },
+];
+
+export const MOTION_MODELS: { id: MotionModel; name: string }[] = [
+  { id: 'discrete', name: 'Discrete' },
+  { id: 'sinusoidal', name: 'Sine' },
+  { id: 'pendulum', name: 'Pendulum' },
+  { id: 'phase', name: 'Phase' },
+];
+
+export const MAX_WRAP_MODULUS = 100000;
+
+export const MIN_VIEW_ZOOM = 0.1;
+export const MAX_VIEW_ZOOM = 20;
+
+export const MIN_MOTION_AMPLITUDE = 0.5;
+export const MAX_MOTION_AMPLITUDE = 100;
+
+export const EASING_TYPES: { id: EasingType; name: string }[] = [
+  { id: 'smoothstep', name: 'Smooth' },
+  { id: 'linear', name: 'Linear' },
+  { id: 'instant', name: 'Instant' },
+  { id: 'ease-in-cubic', name: 'In' },
+  { id: 'ease-out-cubic', name: 'Out' },
+  { id: 'ease-in-out-cubic', name: 'In-Out' },
+  { id: 'elastic', name: 'Elastic' },
+  { id: 'spring', name: 'Spring' },
+  { id: 'bezier', name: 'Bezier' },
+];
+
+export const DEFAULT_BEZIER_CURVE: BezierCurve = [0.25, 0.1, 0.25, 1];
+
+export const MIN_TRANSITION_WIDTH = 0.01; // Narrowest trigger transition, in N units
+export const MAX_TRANSITION_WIDTH = 10; // Widest trigger transition; always capped by the row's interval
+
+export const DEFAULT_CONFIG: OscillatorConfig = {
+  currentStep: 0,
+  rowCount: 15,
+  speedMultiplier: 0.01,
+  syncMode: 'manual',
+  bpm: 120,
+  stepsPerSecond: 10,
+  syncEpoch: 0,
+  colorPalette: 'harmonic',
+  tailType: 'classic',
+  isFollowEnabled: true,
+  isTailEnabled: true,
+  shouldWrap: true,
+  viewMode: '2d',
+  sequenceSource: 'consecutive',
+  customSequence: '2, 3, 5, 7, 11',
+  rationalDenominator: 2,
+  easingType: 'smoothstep',
+  bezierCurve: DEFAULT_BEZIER_CURVE,
+  transitionWidth: 0.5,
+  rowTransitionWidths: {},
+  rowColors: {},
+  motionModel: 'discrete',
+  motionAmplitude: 6,
+  layoutMode: 'lanes',
+  wrapModulus: 0,
+};
@@ -0,0 +1,4 @@
+// Script entry that registers <harmonic-oscillator> on load
+import { defineHarmonicOscillatorElement } from './components/HarmonicOscillatorElement';
+
+defineHarmonicOscillatorElement();
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  ControlEventDetail,
+  ControlEventMessage,
+  ControlEventName,
+  ControlResponseMessage,
+  OscillatorControlApi,
+  expectEventName,
+  isControlCommandMessage,
+  isOriginAllowed,
+  runControlCommand,
+} from '../utils/controlApi';
+
+type ControlHandlers = Omit<OscillatorControlApi, 'on'>;
+
+type Listeners = { [E in ControlEventName]: Set<(detail: ControlEventDetail[E]) => void> };
+
+/**
+ * Exposes `handlers` as `window.harmonicOscillator` and answers command
+ * messages from `allowedOrigins`. Returns the function that publishes
+ * events to both kinds of subscriber.
+ */
+export function useControlApi(handlers: ControlHandlers, allowedOrigins: string[]) {
+  const handlersRef = useRef<ControlHandlers>(handlers);
+  handlersRef.current = handlers;
+  const listenersRef = useRef<Listeners>({ step: new Set(), trigger: new Set() });
+
+  useEffect(() => {
+    const api: OscillatorControlApi = {
+      getState: () => handlersRef.current.getState(),
+      setN: (n) => handlersRef.current.setN(n),
+      play: () => handlersRef.current.play(),
+      pause: () => handlersRef.current.pause(),
+      setSpeed: (speedMultiplier) => handlersRef.current.setSpeed(speedMultiplier),
+      setConfig: (patch) => handlersRef.current.setConfig(patch),
+      on: (event, listener) => {
+        const listeners = listenersRef.current[event] as Set<typeof listener>;
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+    };
+    window.harmonicOscillator = api;
+
+    // Event forwarding per message source, so each host gets its own stream
+    const subscriptions = new Map<Window, Map<ControlEventName, () => void>>();
+
+    const handleMessage = (e: MessageEvent) => {
+      if (!isControlCommandMessage(e.data) || !e.source) return;
+      if (!isOriginAllowed(e.origin, allowedOrigins, window.location.origin)) {
+        console.error(`Rejected control message from ${e.origin}`);
+        return;
+      }
+
+      const source = e.source as Window;
+      const { id, command, args = [] } = e.data;
+      const reply = (response: Pick<ControlResponseMessage, 'result' | 'error'>) => {
+        if (id === undefined) return;
+        const message: ControlResponseMessage = { type: 'harmonic-oscillator:response', id, ...response };
+        source.postMessage(message, e.origin);
+      };
+
+      try {
+        if (command === 'subscribe' || command === 'unsubscribe') {
+          const event = expectEventName(args[0]);
+          const sourceSubscriptions = subscriptions.get(source) ?? new Map<ControlEventName, () => void>();
+          subscriptions.set(source, sourceSubscriptions);
+          sourceSubscriptions.get(event)?.();
+          sourceSubscriptions.delete(event);
+          if (command === 'subscribe') {
+            sourceSubscriptions.set(event, api.on(event, (detail) => {
+              const message: ControlEventMessage = { type: 'harmonic-oscillator:event', event, detail };
+              source.postMessage(message, e.origin);
+            }));
+          }
+          reply({});
+        } else {
+          reply({ result: runControlCommand(api, command, args) });
+        }
+      } catch (err) {
+        reply({ error: (err as Error).message });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      subscriptions.forEach((sourceSubscriptions) => sourceSubscriptions.forEach((unsubscribe) => unsubscribe()));
+      if (window.harmonicOscillator === api) delete window.harmonicOscillator;
+    };
+  }, [allowedOrigins]);
+
+  return useCallback(<E extends ControlEventName>(event: E, detail: ControlEventDetail[E]) => {
+    (listenersRef.current[event] as Set<(detail: ControlEventDetail[E]) => void>).forEach((listener) => listener(detail));
+  }, []);
+}
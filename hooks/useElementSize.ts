@@ -0,0 +1,21 @@
+import { useState, useEffect, useRef } from 'react';
+
+/** Tracks the content size of the element given the returned ref. */
+export function useElementSize<T extends HTMLElement>() {
+  const ref = useRef<T>(null);
+  const [elementSize, setElementSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setElementSize({ width, height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return { ref, ...elementSize };
+}
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import { Command, Keymap } from '../types';
+import { getKeyCombo } from '../utils/keymap';
+
+const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Runs the command bound to each key press. Presses inside text fields are
+ * left alone, and nothing fires while `isEnabled` is false (e.g. while an
+ * overlay owns the keyboard).
+ */
+export function useKeyboardShortcuts(keymap: Keymap, commands: Command[], isEnabled: boolean) {
+  // Commands close over fresh state every render; the listener reads the latest
+  const commandsRef = useRef<Command[]>(commands);
+  commandsRef.current = commands;
+
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.defaultPrevented || isEditableTarget(e.target)) return;
+      const combo = getKeyCombo(e);
+      // Holding a toggle key would flip it on every repeat
+      if (e.repeat && combo === 'Space') return;
+      const command = combo && commandsRef.current.find((c) => c.id === keymap[combo]);
+      if (!command) return;
+      e.preventDefault();
+      command.run();
+    }
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keymap, isEnabled]);
+}
@@ -0,0 +1,98 @@
+import { useEffect, useRef } from 'react';
+import { SonificationSettings } from '../types';
+import { getRowFrequency, scheduleTriggers } from '../utils/audio';
+
+// Notes are played this far behind real time so a whole frame's sweep can be laid out
+const SCHEDULE_LATENCY = 0.05;
+// Sweeps longer than this (a backgrounded tab, a debugger pause) are skipped
+const MAX_SWEEP_SECONDS = 0.25;
+const NOTE_GAIN = 0.2;
+
+function playNote(
+  context: AudioContext,
+  destination: AudioNode,
+  when: number,
+  frequency: number,
+  settings: SonificationSettings
+) {
+  const oscillator = context.createOscillator();
+  const envelope = context.createGain();
+  const peakAt = when + settings.attack;
+  const endAt = peakAt + settings.release;
+
+  oscillator.type = settings.waveform;
+  oscillator.frequency.setValueAtTime(frequency, when);
+  envelope.gain.setValueAtTime(0, when);
+  envelope.gain.linearRampToValueAtTime(NOTE_GAIN, peakAt);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, endAt);
+
+  oscillator.connect(envelope);
+  envelope.connect(destination);
+  oscillator.start(when);
+  oscillator.stop(endAt + 0.02);
+  oscillator.onended = () => envelope.disconnect();
+}
+
+/**
+ * Plays a note for every row trigger crossed between renders. The notes of
+ * each sweep are spread over the wall-clock time the sweep took, so they
+ * line up with manual playback as well as the clock-driven sync modes.
+ */
+export function useSonification(
+  currentStep: number,
+  movementValues: number[],
+  isRunning: boolean,
+  settings: SonificationSettings
+) {
+  const contextRef = useRef<AudioContext | null>(null);
+  const masterRef = useRef<GainNode | null>(null);
+  const previousRef = useRef<{ step: number; time: number } | null>(null);
+
+  useEffect(() => {
+    if (!settings.isEnabled) return;
+
+    const context = new AudioContext();
+    const master = context.createGain();
+    master.gain.value = settings.volume;
+    master.connect(context.destination);
+    contextRef.current = context;
+    masterRef.current = master;
+    context.resume().catch((err) => {
+      console.error(`Error starting audio: ${err.message}`);
+    });
+
+    return () => {
+      contextRef.current = null;
+      masterRef.current = null;
+      context.close();
+    };
+  }, [settings.isEnabled]);
+
+  useEffect(() => {
+    const context = contextRef.current;
+    if (context && masterRef.current) {
+      masterRef.current.gain.setTargetAtTime(settings.volume, context.currentTime, 0.02);
+    }
+  }, [settings.volume]);
+
+  useEffect(() => {
+    const now = performance.now();
+    const previous = previousRef.current;
+    previousRef.current = { step: currentStep, time: now };
+
+    const context = contextRef.current;
+    const master = masterRef.current;
+    if (!previous || !context || !master || !isRunning) return;
+
+    const duration = (now - previous.time) / 1000;
+    if (duration <= 0 || duration > MAX_SWEEP_SECONDS) return;
+
+    const notes = scheduleTriggers(previous.step, currentStep, movementValues, settings.mutedRows);
+    const sweepStart = context.currentTime + SCHEDULE_LATENCY - duration;
+    notes.forEach((note) => {
+      const when = Math.max(context.currentTime, sweepStart + note.offset * duration);
+      const frequency = getRowFrequency(note.rowIndex, movementValues[note.rowIndex], settings);
+      playNote(context, master, when, frequency, settings);
+    });
+  }, [currentStep, movementValues, isRunning, settings]);
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { SyncMode } from '../types';
+import { SyncAnchor, SyncClock, SyncSettings, getSyncedStep } from '../utils/syncClock';
+
+interface StepClockOptions extends SyncSettings {
+  isPlaying: boolean;
+  speedMultiplier: number;
+  syncMode: SyncMode;
+}
+
+type StepSetter = (update: number | ((prev: number) => number)) => void;
+
+/**
+ * Drives N on every animation frame: by `speedMultiplier` steps per ms while
+ * playing in manual mode, otherwise from `clock` according to the sync mode.
+ * Manual playback never goes below N = 0.
+ */
+export function useStepClock(
+  currentStep: number,
+  setCurrentStep: StepSetter,
+  { isPlaying, speedMultiplier, syncMode, bpm, stepsPerSecond, syncEpoch }: StepClockOptions,
+  clock: SyncClock
+) {
+  const animationFrameRef = useRef<number | null>(null);
+  const lastTimeRef = useRef<number | null>(null);
+  const syncAnchorRef = useRef<SyncAnchor>({ time: clock.now(), step: currentStep });
+
+  const animate = useCallback((time: number) => {
+    if (syncMode !== 'manual') {
+      setCurrentStep(getSyncedStep(syncMode, clock.now(), { bpm, stepsPerSecond, syncEpoch }, syncAnchorRef.current));
+    } else if (isPlaying && lastTimeRef.current !== null) {
+      const deltaTime = time - lastTimeRef.current;
+      setCurrentStep((prev) => Math.max(0, prev + (deltaTime * speedMultiplier)));
+    }
+    lastTimeRef.current = time;
+    animationFrameRef.current = requestAnimationFrame(animate);
+  }, [isPlaying, speedMultiplier, syncMode, bpm, stepsPerSecond, syncEpoch, clock, setCurrentStep]);
+
+  useEffect(() => {
+    const shouldBeRunning = (syncMode !== 'manual') || isPlaying;
+
+    if (shouldBeRunning) {
+      lastTimeRef.current = performance.now();
+      animationFrameRef.current = requestAnimationFrame(animate);
+    } else {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+      lastTimeRef.current = null;
+    }
+
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+    };
+  }, [isPlaying, animate, syncMode]);
+
+  // Rate-based sync modes count on from the N shown when they start or change rate
+  useEffect(() => {
+    syncAnchorRef.current = { time: clock.now(), step: currentStep };
+  }, [syncMode, bpm, stepsPerSecond, clock]);
+}
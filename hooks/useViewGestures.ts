@@ -0,0 +1,94 @@
+import { useEffect, useRef } from 'react';
+import { getWheelZoomFactor } from '../utils/view';
+
+export interface ViewGestureHandlers {
+  onPan: (dx: number, dy: number) => void; // Pixels moved since the last call
+  onZoom: (factor: number, x: number, y: number) => void; // About a point relative to the element
+}
+
+// Pixels per line for wheels that report their delta in lines (Firefox)
+const WHEEL_LINE_HEIGHT = 16;
+
+/**
+ * Mouse, pen and touch gestures on the element given the returned ref:
+ * dragging pans, two fingers pinch to zoom while panning with their
+ * midpoint, and the wheel zooms about the pointer. Sideways wheel swipes and
+ * Shift+wheel pan along instead.
+ */
+export function useViewGestures<T extends HTMLElement>(handlers: ViewGestureHandlers) {
+  const ref = useRef<T>(null);
+  const handlersRef = useRef<ViewGestureHandlers>(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const pointers = new Map<number, { x: number; y: number }>();
+
+    const toLocal = (e: MouseEvent) => {
+      const rect = element.getBoundingClientRect();
+      return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    // Midpoint and distance of a two-finger pinch
+    const getPinch = () => {
+      const [a, b] = [...pointers.values()];
+      return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, distance: Math.hypot(a.x - b.x, a.y - b.y) };
+    };
+
+    function handlePointerDown(e: PointerEvent) {
+      if (e.pointerType === 'mouse' && e.button !== 0) return;
+      element!.setPointerCapture(e.pointerId);
+      pointers.set(e.pointerId, toLocal(e));
+    }
+
+    function handlePointerMove(e: PointerEvent) {
+      const last = pointers.get(e.pointerId);
+      if (!last) return;
+      const before = pointers.size === 2 ? getPinch() : null;
+      const point = toLocal(e);
+      pointers.set(e.pointerId, point);
+
+      if (before) {
+        const after = getPinch();
+        if (before.distance > 0) handlersRef.current.onZoom(after.distance / before.distance, after.x, after.y);
+        handlersRef.current.onPan(after.x - before.x, after.y - before.y);
+      } else if (pointers.size === 1) {
+        handlersRef.current.onPan(point.x - last.x, point.y - last.y);
+      }
+    }
+
+    function handlePointerUp(e: PointerEvent) {
+      pointers.delete(e.pointerId);
+    }
+
+    function handleWheel(e: WheelEvent) {
+      // Also keeps Ctrl+wheel (trackpad pinch) from zooming the page
+      e.preventDefault();
+      const scale = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1;
+      const dx = e.deltaX * scale;
+      const dy = e.deltaY * scale;
+      if (e.shiftKey || Math.abs(dx) > Math.abs(dy)) {
+        handlersRef.current.onPan(-(dx || dy), 0);
+        return;
+      }
+      const { x, y } = toLocal(e);
+      handlersRef.current.onZoom(getWheelZoomFactor(dy), x, y);
+    }
+
+    element.addEventListener('pointerdown', handlePointerDown);
+    element.addEventListener('pointermove', handlePointerMove);
+    element.addEventListener('pointerup', handlePointerUp);
+    element.addEventListener('pointercancel', handlePointerUp);
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('pointermove', handlePointerMove);
+      element.removeEventListener('pointerup', handlePointerUp);
+      element.removeEventListener('pointercancel', handlePointerUp);
+      element.removeEventListener('wheel', handleWheel);
+    };
+  }, []);
+
+  return ref;
+}
@@ -0,0 +1,11 @@
+// Library entry: the visualization without the control panel, for embedding
+export { HarmonicOscillator, EMBED_DEFAULT_CONFIG } from './components/HarmonicOscillator';
+export type { HarmonicOscillatorProps } from './components/HarmonicOscillator';
+export {
+  ELEMENT_TAG_NAME,
+  HarmonicOscillatorElement,
+  defineHarmonicOscillatorElement,
+} from './components/HarmonicOscillatorElement';
+export { createFakeClock, systemClock } from './utils/syncClock';
+export type { SyncClock } from './utils/syncClock';
+export type { OscillatorConfig, SyncMode, TriggerEvent, ViewMode } from './types';
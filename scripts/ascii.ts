@@ -0,0 +1,140 @@
+// Terminal renderer: prints the oscillator at one N, or animates a range of N.
+//
+//   npm run ascii -- --rows 15 --n 60 --width 120
+//   npm run ascii -- --n 0 --to 48 --step 0.25 --no-follow
+//
+// When stdout is not a terminal every frame is printed in turn, which
+// makes the output usable as a golden snapshot.
+import { parseArgs } from 'node:util';
+import { OscillatorConfig } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { decodeConfig } from '../utils/permalink';
+import { getMovementValues } from '../utils/sequences';
+import { getRowEasings } from '../utils/easing';
+import { resolveTailStyle } from '../utils/tails';
+import { renderAsciiFrame } from '../utils/asciiRenderer';
+
+const USAGE = `Usage: npm run ascii -- [options]
+
+  --n <N>            N to draw, or the first N when animating (default 0)
+  --to <N>           Animate from --n up to this N
+  --step <dN>        N advanced per frame when animating (default 0.1, at least 0.001)
+  --fps <fps>        Frames per second in a terminal (default 30)
+  --rows <count>     Follower rows below the leader (default ${DEFAULT_CONFIG.rowCount})
+  --width <chars>    Line width (default: terminal width or 100)
+  --cell <chars>     Columns per N unit (default 1)
+  --sequence <id>    consecutive, primes, fibonacci, powers, rational or custom
+  --list <values>    Values for the custom sequence, e.g. "2,3,5"
+  --den <d>          Denominator for the rational sequence
+  --tail-type <id>   Tail style, e.g. classic, comet, dotted
+  --easing <id>      Easing curve, e.g. smoothstep, linear, instant
+  --motion <id>      discrete, sinusoidal, pendulum or phase
+  --amp <columns>    Swing amplitude of the sinusoidal and pendulum models
+  --no-follow        Keep the camera still instead of following the leader
+  --modulus <units>  Wrap every this many N units (default: the track width)
+  --no-wrap          Let rows run off the edge instead of wrapping
+  --no-tail          Draw heads only
+  --help             Show this message`;
+
+const { values: args } = parseArgs({
+  options: {
+    n: { type: 'string' },
+    to: { type: 'string' },
+    step: { type: 'string' },
+    fps: { type: 'string' },
+    rows: { type: 'string' },
+    width: { type: 'string' },
+    cell: { type: 'string' },
+    sequence: { type: 'string' },
+    list: { type: 'string' },
+    den: { type: 'string' },
+    'tail-type': { type: 'string' },
+    easing: { type: 'string' },
+    motion: { type: 'string' },
+    amp: { type: 'string' },
+    modulus: { type: 'string' },
+    'no-follow': { type: 'boolean' },
+    'no-wrap': { type: 'boolean' },
+    'no-tail': { type: 'boolean' },
+    help: { type: 'boolean' },
+  },
+});
+
+if (args.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const readNumber = (value: string | undefined, fallback: number, min: number) => {
+  const parsed = value === undefined ? fallback : Number(value);
+  if (!Number.isFinite(parsed) || parsed < min) {
+    console.error(`Invalid number: ${value}\n\n${USAGE}`);
+    process.exit(1);
+  }
+  return parsed;
+};
+
+// Options go through the same validation as permalink parameters
+const fields: Partial<Record<keyof OscillatorConfig, string | undefined>> = {
+  currentStep: args.n,
+  rowCount: args.rows,
+  sequenceSource: args.sequence,
+  customSequence: args.list,
+  rationalDenominator: args.den,
+  tailType: args['tail-type'],
+  easingType: args.easing,
+  motionModel: args.motion,
+  motionAmplitude: args.amp,
+  wrapModulus: args.modulus,
+  isFollowEnabled: args['no-follow'] ? 'false' : undefined,
+  shouldWrap: args['no-wrap'] ? 'false' : undefined,
+  isTailEnabled: args['no-tail'] ? 'false' : undefined,
+  viewMode: 'canvas', // Allows the canvas renderer's larger row limit
+};
+const config = decodeConfig(fields, DEFAULT_CONFIG);
+
+// Smallest --step and most frames one run may print, so a tiny step cannot
+// turn a short range into millions of frames
+const MIN_STEP = 0.001;
+const MAX_FRAMES = 100_000;
+
+const movementValues = getMovementValues(config.sequenceSource, config.rowCount, config.customSequence, config.rationalDenominator);
+const width = readNumber(args.width, process.stdout.columns || 100, 8);
+const cellWidth = readNumber(args.cell, 1, 1);
+const tailStyle = resolveTailStyle(config.tailType, []);
+const rowEasings = getRowEasings(movementValues.length, config.easingType, config.bezierCurve, config.transitionWidth, config.rowTransitionWidths);
+const motion = { model: config.motionModel, amplitude: config.motionAmplitude };
+
+const render = (currentStep: number) => renderAsciiFrame({
+  currentStep,
+  movementValues,
+  width,
+  cellWidth,
+  shouldWrap: config.shouldWrap,
+  wrapModulus: config.wrapModulus,
+  isFollowEnabled: config.isFollowEnabled,
+  isTailEnabled: config.isTailEnabled,
+  tailStyle,
+  rowEasings,
+  motion,
+});
+
+const start = config.currentStep;
+const end = args.to === undefined ? start : readNumber(args.to, start, start);
+const step = readNumber(args.step, 0.1, MIN_STEP);
+const frameCount = Math.min(MAX_FRAMES, Math.floor((end - start) / step) + 1);
+
+if (frameCount === 1 || !process.stdout.isTTY) {
+  for (let i = 0; i < frameCount; i++) {
+    process.stdout.write(`${render(start + i * step)}\n${i < frameCount - 1 ? '\n' : ''}`);
+  }
+} else {
+  const frameMs = 1000 / readNumber(args.fps, 30, 1);
+  let frame = 0;
+  // Redraw in place: cursor home, clear screen
+  const timer = setInterval(() => {
+    process.stdout.write(`\x1b[H\x1b[2J${render(start + frame * step)}\n`);
+    frame++;
+    if (frame >= frameCount) clearInterval(timer);
+  }, frameMs);
+}
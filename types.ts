@@ -1,4 +1,117 @@
-export type TailType = 'classic' | 'ghost' | 'echo' | 'stepped' | 'glitch';
+// Id of a built-in tail style (TAIL_STYLES) or a user-defined one
+export type TailType = string;
+
+export type FalloffType = 'none' | 'linear' | 'step' | 'exponential';
+
+/** Data describing how a tail is sampled and faded behind a row head. */
+export interface TailStyle {
+  id: TailType;
+  name: string;
+  length: number; // Blocks behind the head
+  wrapLength?: number; // Length used instead while wrapping
+  stride: number; // Trigger interval between drawn blocks
+  opacity: number; // Opacity next to the head
+  opacityFalloff: FalloffType;
+  scale: number; // Block scale next to the head
+  scaleFalloff: FalloffType;
+  minScale: number;
+  falloffKnee: number; // Fraction of the length where step/exponential falloffs turn
+  jitter: number; // Horizontal wobble amplitude (1 = the glitch tail)
+  colorShift: number; // Hue rotation in degrees reached at the tail end
+  isCustom?: boolean;
+}
+
+// How N is driven: by the play button, or derived from a clock. 'bpm' and
+// 'rate' advance at a fixed rate from the N at which they were entered;
+// 'epoch' counts seconds since `syncEpoch`.
+export type SyncMode = 'manual' | 'seconds' | 'ms' | 'minutes' | 'hours' | 'bpm' | 'rate' | 'epoch';
+
+export type ViewMode = '2d' | 'canvas' | '3d';
+
+// Arrangement of the rows in the 2D views: horizontal lanes, vertical lanes,
+// or concentric rings where a row of modulus v has v slots around its ring
+export type LayoutMode = 'lanes' | 'vertical' | 'polar';
+
+// How a row moves with N: 'discrete' jumps one movement value per trigger,
+// 'sinusoidal' swings with period v, 'pendulum' swings with a frequency set
+// by the row index (a pendulum wave), 'phase' sweeps N mod v
+export type MotionModel = 'discrete' | 'sinusoidal' | 'pendulum' | 'phase';
+
+export interface MotionSettings {
+  model: MotionModel;
+  amplitude: number; // Half the swing of the oscillating models, in N units
+}
+
+export type SequenceSource = 'consecutive' | 'primes' | 'fibonacci' | 'powers' | 'rational' | 'custom';
+
+export type EasingType =
+  | 'linear'
+  | 'instant'
+  | 'smoothstep'
+  | 'ease-in-cubic'
+  | 'ease-out-cubic'
+  | 'ease-in-out-cubic'
+  | 'elastic'
+  | 'spring'
+  | 'bezier';
+
+// How a follower row picks its base hue: golden-angle steps by movement
+// value or by row index, or a smooth sweep by movement value
+export type HueFunction = 'golden' | 'row' | 'value';
+
+/** Data describing how rows are coloured. */
+export interface PaletteDefinition {
+  id: string;
+  name: string;
+  hueFunction: HueFunction;
+  hueStart: number; // Degrees
+  hueRange: number; // Span of hues used from hueStart; 0 keeps every row at hueStart
+  saturation: number; // Percent
+  lightness: number; // Percent
+  lightnessRange: number; // Extra lightness spread across rows, in percent
+  colors?: string[]; // Explicit follower colours (hex, rgb or hsl), cycled by row; replaces the hue function
+  leaderColor: string;
+  isCustom?: boolean;
+}
+
+// Control points x1, y1, x2, y2 of a CSS-style cubic-bezier curve
+export type BezierCurve = [number, number, number, number];
+
+export interface OscillatorConfig {
+  currentStep: number;
+  rowCount: number;
+  speedMultiplier: number;
+  syncMode: SyncMode;
+  bpm: number;
+  stepsPerSecond: number;
+  syncEpoch: number; // Unix time in ms
+  colorPalette: string;
+  tailType: TailType;
+  isFollowEnabled: boolean;
+  isTailEnabled: boolean;
+  shouldWrap: boolean;
+  viewMode: ViewMode;
+  sequenceSource: SequenceSource;
+  customSequence: string;
+  rationalDenominator: number;
+  easingType: EasingType;
+  bezierCurve: BezierCurve;
+  transitionWidth: number;
+  rowTransitionWidths: Record<number, number>;
+  rowColors: Record<number, string>;
+  motionModel: MotionModel;
+  motionAmplitude: number;
+  layoutMode: LayoutMode;
+  wrapModulus: number; // Columns per wrap lap; 0 wraps at the viewport width
+}
+
+export interface RowPosition {
+  x: number;
+  isHead: boolean;
+  opacity: number;
+  scale?: number;
+  hueShift?: number;
+}
 
 export interface NumberRowProps {
   label: string | number;
@@ -11,16 +124,116 @@ export interface NumberRowProps {
   rowIndex: number;
   isTailEnabled: boolean;
   isFollowEnabled: boolean;
-  colorPalette: string;
-  tailType: TailType;
+  color: string;
+  tailStyle: TailStyle;
+  isPulsing?: boolean;
 }
 
 export interface ControlBarProps {
   isPlaying: boolean;
   onPlayPause: () => void;
   onStep: () => void;
+  onStepBack: () => void;
   onReset: () => void;
+  onSeek: (n: number) => void;
   currentStep: number;
   speedMultiplier: number;
   onSpeedChange: (value: number) => void;
-}
\ No newline at end of file
+  bookmarks: Bookmark[];
+}
+
+export interface Bookmark {
+  id: string;
+  n: number;
+  label: string;
+}
+
+export interface Preset {
+  id: string;
+  name: string;
+  config: OscillatorConfig;
+  createdAt: number;
+}
+
+export interface PresetFile {
+  version: number;
+  presets: Preset[];
+}
+
+export interface TriggerEvent {
+  n: number;
+  rows: number[];
+  isAlignment: boolean;
+}
+
+export type PitchMode = 'harmonic' | 'scale';
+
+export type ScaleName = 'major' | 'minor' | 'pentatonic' | 'chromatic';
+
+export interface OverlaySettings {
+  isFactorizationVisible: boolean; // Prime factorization under the N badge
+  isClassificationVisible: boolean; // Prime, composite or highly composite marker
+  isFormMarkerVisible: boolean; // Perfect number and square markers
+  isDivisorTintEnabled: boolean; // Tint the heads of rows whose value divides N
+  isRulerVisible: boolean;
+  rulerRow: number; // Row whose multiples the ruler marks
+}
+
+// Zoom and pan on top of the fitted 2D view; not part of the shareable config
+export interface ViewTransform {
+  zoom: number; // Multiplier on the slot size that fits every row
+  focus: number | null; // Camera position along the lanes in N units; null leaves the camera to follow mode
+  rowOffset: number; // Rows scrolled past the top lane
+}
+
+export interface SonificationSettings {
+  isEnabled: boolean;
+  volume: number;
+  pitchMode: PitchMode;
+  scale: ScaleName;
+  baseFrequency: number;
+  waveform: OscillatorType;
+  attack: number;
+  release: number;
+  mutedRows: number[];
+  rowFrequencies: Record<number, number>;
+}
+
+export interface ScheduledNote {
+  rowIndex: number;
+  n: number;
+  offset: number;
+}
+
+export type ExportFormat = 'png' | 'webm';
+
+export interface ExportOptions {
+  startStep: number;
+  endStep: number;
+  fps: number;
+  stepsPerFrame: number;
+  width: number;
+  height: number;
+  format: ExportFormat;
+}
+
+export type SnapshotFormat = 'svg' | 'png';
+
+export interface SnapshotOptions {
+  width: number; // CSS pixels; the layout matches a view of this size
+  height: number;
+  pixelRatio: number; // PNG only: device pixels per CSS pixel
+  format: SnapshotFormat;
+  isGridVisible: boolean;
+  isBadgeVisible: boolean;
+}
+
+export interface Command {
+  id: string;
+  name: string;
+  group: string;
+  run: () => void;
+}
+
+// Key combo (as produced by getKeyCombo) -> command id
+export type Keymap = Record<string, string>;
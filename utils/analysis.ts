@@ -0,0 +1,36 @@
+import { TriggerEvent } from '../types';
+import { getTriggeringRows } from './events';
+import { getActiveRowIndex, getTriggerCount } from './kinematics';
+
+// Integer steps covered by the triggers-per-step sparkline
+export const TRIGGER_HISTORY_LENGTH = 48;
+
+/** Times each row has triggered between 0 and the integer N. */
+export const getRowTriggerCounts = (N: number, movementValues: number[]) => {
+  return movementValues.map((v) => (N > 0 ? getTriggerCount(N, v) : 0));
+};
+
+/**
+ * Number of triggering rows at each of the last `length` integers up to N,
+ * oldest first. Integers below 1 are left out.
+ */
+export const getTriggerHistory = (N: number, movementValues: number[], length: number = TRIGGER_HISTORY_LENGTH) => {
+  const history: number[] = [];
+  for (let n = Math.max(1, N - length + 1); n <= N; n++) {
+    history.push(getTriggeringRows(n, movementValues).length);
+  }
+  return history;
+};
+
+/**
+ * Adds each event's active row (the last triggering row, as shown by
+ * "Active MOD") to a per-row histogram.
+ */
+export const recordActiveRows = (histogram: number[], events: TriggerEvent[], movementValues: number[]) => {
+  const next = movementValues.map((_, rowIndex) => histogram[rowIndex] ?? 0);
+  events.forEach((event) => {
+    const rowIndex = getActiveRowIndex(event.n, movementValues);
+    if (rowIndex >= 0) next[rowIndex]++;
+  });
+  return next;
+};
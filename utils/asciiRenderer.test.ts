@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { TAIL_STYLES } from '../constants';
+import { AsciiFrame, renderAsciiFrame } from './asciiRenderer';
+import { DEFAULT_EASING } from './kinematics';
+
+const movementValues = [1, 2, 3, 5];
+
+const frame = (overrides: Partial<AsciiFrame> = {}): AsciiFrame => ({
+  currentStep: 13,
+  movementValues,
+  width: 32,
+  cellWidth: 1,
+  shouldWrap: false,
+  isFollowEnabled: false,
+  isTailEnabled: false,
+  tailStyle: TAIL_STYLES[0],
+  rowEasings: movementValues.map(() => DEFAULT_EASING),
+  ...overrides,
+});
+
+describe('renderAsciiFrame', () => {
+  it('draws heads on a still camera', () => {
+    expect(renderAsciiFrame(frame())).toMatchInlineSnapshot(`
+      "                           N=13
+      1 |                           @|
+      2 |                          @ |
+      3 |                          @ |
+      5 |                        @   |"
+    `);
+  });
+
+  it('wraps rows at the modulus with boundary markers', () => {
+    expect(renderAsciiFrame(frame({ shouldWrap: true, wrapModulus: 8 }))).toMatchInlineSnapshot(`
+      "      N=13                     
+      1 ||    @  |                   |
+      2 ||   @   |                   |
+      3 ||   @   |                   |
+      5 || @     |                   |"
+    `);
+  });
+
+  it('keeps the leader centred while following, with tails', () => {
+    expect(renderAsciiFrame(frame({ isFollowEnabled: true, isTailEnabled: true }))).toMatchInlineSnapshot(`
+      "               N=13            
+      1 | :::::::------@             |
+      2 | - - - - - - @              |
+      3 | -  -  -  -  @              |
+      5 | -    -    @                |"
+    `);
+  });
+
+  it('wraps under follow with tails', () => {
+    expect(renderAsciiFrame(frame({ shouldWrap: true, isFollowEnabled: true, isTailEnabled: true, wrapModulus: 8 }))).toMatchInlineSnapshot(`
+      "               N=13            
+      1 |         -----@  |          |
+      2 |         - - @   |          |
+      3 |         |-  @   |          |
+      5 |         | @     |          |"
+    `);
+  });
+});
@@ -0,0 +1,98 @@
+import { MotionSettings, TailStyle } from '../types';
+import { computeRowPositions, getBadgeX, getCameraOffset, getFocusX, getLeaderOffset, getQuantizedWrapWidth, getWrapMarkers } from './kinematics';
+import { Easing } from './easing';
+import { formatMovementValue } from './sequences';
+
+export interface AsciiFrame {
+  currentStep: number;
+  movementValues: number[];
+  width: number; // Line width in characters, including the row labels
+  cellWidth: number; // Columns per N unit
+  shouldWrap: boolean;
+  wrapModulus?: number; // Wrap period in N units; 0 wraps at the track width
+  isFollowEnabled: boolean;
+  isTailEnabled: boolean;
+  tailStyle: TailStyle;
+  rowEasings: Easing[];
+  motion?: MotionSettings;
+}
+
+const HEAD_GLYPH = '@';
+// Tail glyphs from faintest to strongest opacity
+const TAIL_RAMP = '.:-=+*';
+// Wrap boundary column, shown wherever no block covers it
+const WRAP_MARKER_GLYPH = '|';
+
+const getTailGlyph = (opacity: number) => {
+  return TAIL_RAMP[Math.min(TAIL_RAMP.length - 1, Math.floor(opacity * TAIL_RAMP.length))];
+};
+
+/**
+ * Draws one frame as plain text: an N badge line, then one line per row
+ * with its label and track. Uses the same row kinematics as the 2D
+ * renderers, with one N unit spanning `cellWidth` columns.
+ */
+export const renderAsciiFrame = (frame: AsciiFrame) => {
+  const {
+    currentStep,
+    movementValues,
+    width,
+    cellWidth,
+    shouldWrap,
+    wrapModulus,
+    isFollowEnabled,
+    isTailEnabled,
+    tailStyle,
+    rowEasings,
+    motion,
+  } = frame;
+
+  const labels = movementValues.map(formatMovementValue);
+  const labelWidth = Math.max(...labels.map((label) => label.length));
+  // Each row line is the label, a space and the track between two bars
+  const columns = Math.max(1, width - labelWidth - 3);
+  const leaderOffset = getLeaderOffset(currentStep, cellWidth, rowEasings[0], motion);
+  const wrapPeriod = shouldWrap ? getQuantizedWrapWidth(columns, cellWidth, wrapModulus) : 0;
+  const focusX = getFocusX(getCameraOffset(currentStep, cellWidth, rowEasings[0], motion), isFollowEnabled, wrapPeriod);
+  const layout = { itemSize: cellWidth, wrapWidth: columns, wrapModulus, shouldWrap, isFollowEnabled, focusX, viewportWidth: columns };
+
+  const badge = `N=${Math.floor(currentStep)}`;
+  const badgeCenter = Math.round(getBadgeX(leaderOffset, layout) - 0.5);
+  const badgeStart = Math.max(0, Math.min(columns - badge.length, badgeCenter - Math.floor(badge.length / 2)));
+  const badgeLine = (' '.repeat(badgeStart) + badge).padEnd(columns).slice(0, columns);
+  const markerColumns = getWrapMarkers(layout).map(Math.round).filter((c) => c >= 0 && c < columns);
+
+  const rowLines = movementValues.map((movementValue, rowIndex) => {
+    const track = new Array<string>(columns).fill(' ');
+    markerColumns.forEach((c) => { track[c] = WRAP_MARKER_GLYPH; });
+    const positions = computeRowPositions({
+      currentStep,
+      movementValue,
+      itemSize: cellWidth,
+      wrapWidth: columns,
+      wrapModulus,
+      shouldWrap,
+      isFollowEnabled,
+      isTailEnabled,
+      tailStyle,
+      focusX,
+      viewportWidth: columns,
+      easing: rowEasings[rowIndex],
+      rowIndex,
+      motion,
+    });
+
+    // Oldest tail block first so newer blocks and the head overwrite it
+    for (let i = positions.length - 1; i >= 0; i--) {
+      const pos = positions[i];
+      const glyph = pos.isHead ? HEAD_GLYPH : getTailGlyph(pos.opacity);
+      const start = Math.round(pos.x);
+      for (let c = start; c < start + cellWidth; c++) {
+        if (c >= 0 && c < columns) track[c] = glyph;
+      }
+    }
+    return `${labels[rowIndex].padStart(labelWidth)} |${track.join('')}|`;
+  });
+
+  return [`${' '.repeat(labelWidth)}  ${badgeLine}`, ...rowLines].join('\n');
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { scheduleTriggers } from './audio';
+
+const triggers = (fromStep: number, toStep: number, values: number[], mutedRows?: number[], maxNotes?: number) => {
+  return scheduleTriggers(fromStep, toStep, values, mutedRows, maxNotes).map(({ rowIndex, n }) => [rowIndex, n]);
+};
+
+describe('scheduleTriggers', () => {
+  it('plays every trigger a fast frame sweeps past, in order', () => {
+    const notes = scheduleTriggers(0, 10, [2, 5]);
+    expect(notes.map(({ rowIndex, n }) => [rowIndex, n])).toEqual([[0, 2], [0, 4], [1, 5], [0, 6], [0, 8], [0, 10], [1, 10]]);
+    expect(notes.map((note) => note.offset)).toEqual([0.2, 0.4, 0.5, 0.6, 0.8, 1, 1]);
+  });
+
+  it('plays a trigger on a frame boundary exactly once', () => {
+    const frames = [[0, 1.5], [1.5, 3], [3, 4], [4, 4.5]];
+    const played = frames.flatMap(([from, to]) => triggers(from, to, [1, 3]));
+    expect(played).toEqual([[0, 1], [0, 2], [0, 3], [1, 3], [0, 4]]);
+  });
+
+  it('plays nothing for an empty or backward sweep', () => {
+    expect(scheduleTriggers(5, 5, [1])).toEqual([]);
+    expect(scheduleTriggers(6, 5, [1])).toEqual([]);
+  });
+
+  it('skips muted rows', () => {
+    expect(triggers(0, 6, [2, 3], [0])).toEqual([[1, 3], [1, 6]]);
+  });
+
+  it('caps the notes of one sweep', () => {
+    const notes = scheduleTriggers(0, 1e6, [1, 2], [], 5);
+    expect(notes).toHaveLength(5);
+    expect(notes.map((note) => note.n)).toEqual([1, 2, 2, 3, 4]);
+  });
+
+  it('triggers fractional movement values on their exact multiples', () => {
+    expect(triggers(0, 4, [4 / 3])).toEqual([[0, 4 / 3], [0, 8 / 3], [0, 4]]);
+    const played = [[0, 3.9], [3.9, 4], [4, 6]].flatMap(([from, to]) => triggers(from, to, [1.2]));
+    expect(played.map(([, n]) => n)).toEqual([1, 2, 3, 4, 5].map((k) => k * 1.2));
+  });
+});
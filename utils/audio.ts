@@ -0,0 +1,79 @@
+import { ScaleName, ScheduledNote, SonificationSettings } from '../types';
+import { getTriggerCount } from './kinematics';
+
+// Voice limit per sweep; anything beyond it is dropped rather than queued
+export const MAX_NOTES_PER_SWEEP = 256;
+
+// Harmonic pitches are folded down by octaves to stay within this range above the base
+export const PITCH_RANGE_OCTAVES = 4;
+
+export const SCALES: Record<ScaleName, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  pentatonic: [0, 2, 4, 7, 9],
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+export const DEFAULT_SONIFICATION: SonificationSettings = {
+  isEnabled: false,
+  volume: 0.5,
+  pitchMode: 'harmonic',
+  scale: 'pentatonic',
+  baseFrequency: 110,
+  waveform: 'sine',
+  attack: 0.005,
+  release: 0.25,
+  mutedRows: [],
+  rowFrequencies: {},
+};
+
+const foldIntoRange = (frequency: number, base: number) => {
+  const ceiling = base * 2 ** PITCH_RANGE_OCTAVES;
+  while (frequency > ceiling) frequency /= 2;
+  return frequency;
+};
+
+/** Frequency in Hz for a row; an explicit per-row frequency wins over the mapping. */
+export const getRowFrequency = (rowIndex: number, movementValue: number, settings: SonificationSettings) => {
+  const override = settings.rowFrequencies[rowIndex];
+  if (override) return override;
+
+  const { baseFrequency } = settings;
+  if (settings.pitchMode === 'scale') {
+    const degrees = SCALES[settings.scale];
+    const octave = Math.floor(rowIndex / degrees.length) % PITCH_RANGE_OCTAVES;
+    const semitones = degrees[rowIndex % degrees.length] + 12 * octave;
+    return baseFrequency * 2 ** (semitones / 12);
+  }
+  return foldIntoRange(baseFrequency * movementValue, baseFrequency);
+};
+
+/**
+ * Notes for every row trigger in the half-open sweep (fromStep, toStep],
+ * ordered by time. `offset` is the trigger's position within the sweep
+ * (0, 1], so a frame that crosses several triggers of the same row plays
+ * each of them once, and consecutive sweeps never repeat a note.
+ */
+export const scheduleTriggers = (
+  fromStep: number,
+  toStep: number,
+  movementValues: number[],
+  mutedRows: number[] = [],
+  maxNotes = MAX_NOTES_PER_SWEEP
+): ScheduledNote[] => {
+  const span = toStep - fromStep;
+  if (!(span > 0)) return [];
+
+  const notes: ScheduledNote[] = [];
+  movementValues.forEach((v, rowIndex) => {
+    if (v <= 0 || mutedRows.includes(rowIndex)) return;
+    const first = getTriggerCount(fromStep, v) + 1;
+    const last = Math.min(getTriggerCount(toStep, v), first + maxNotes - 1);
+    for (let k = first; k <= last; k++) {
+      const n = k * v;
+      notes.push({ rowIndex, n, offset: (n - fromStep) / span });
+    }
+  });
+
+  return notes.sort((a, b) => a.offset - b.offset).slice(0, maxNotes);
+};
@@ -0,0 +1,26 @@
+import { Bookmark } from '../types';
+import { createId } from './ids';
+import { loadJson, sanitizeList, saveJson } from './storage';
+
+export const BOOKMARK_STORAGE_KEY = 'harmonic-oscillator.bookmarks';
+
+const sanitizeBookmark = (raw: unknown): Bookmark | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const { id, n, label } = raw as Record<string, unknown>;
+  if (typeof n !== 'number' || !Number.isFinite(n) || n < 0) return null;
+  return {
+    id: typeof id === 'string' && id ? id : createId(),
+    n,
+    label: typeof label === 'string' ? label : '',
+  };
+};
+
+/** Adds a bookmark at N, replacing any existing one there, sorted by N. */
+export const addBookmark = (bookmarks: Bookmark[], n: number, label: string) => {
+  const bookmark = { id: createId(), n, label };
+  return [...bookmarks.filter((b) => b.n !== n), bookmark].sort((a, b) => a.n - b.n);
+};
+
+export const loadBookmarks = () => loadJson(BOOKMARK_STORAGE_KEY, 'bookmarks', sanitizeList(sanitizeBookmark), []);
+
+export const saveBookmarks = (bookmarks: Bookmark[]) => saveJson(BOOKMARK_STORAGE_KEY, 'bookmarks', bookmarks);
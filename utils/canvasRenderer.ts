@@ -0,0 +1,549 @@
+import { LayoutMode, MotionSettings, OverlaySettings, RowPosition, TailStyle, ViewTransform } from '../types';
+import {
+  TAIL_JITTER_PX,
+  computeRowPositions,
+  computeRowTrack,
+  getBackgroundX,
+  getBadgeX,
+  getCameraOffset,
+  getFocusX,
+  getLeaderOffset,
+  getQuantizedWrapWidth,
+  getWrapMarkers,
+} from './kinematics';
+import { Easing } from './easing';
+import { getPulsingRows } from './events';
+import { shiftHue } from './palette';
+import { formatMovementValue } from './sequences';
+import { BLOCK_GUTTER, getBlockMetrics, getRingLayout, getRingPoint, getRingRadius } from './layout';
+import { DIVISOR_TINT, FrameOverlay, RulerTick, buildFrameOverlay } from './overlays';
+import { DEFAULT_VIEW, clampRowOffset, getFittedSlotSize } from './view';
+
+export interface CanvasFrame {
+  currentStep: number;
+  movementValues: number[];
+  width: number;
+  height: number;
+  itemSize: number;
+  shouldWrap: boolean;
+  wrapModulus?: number;
+  isFollowEnabled: boolean;
+  isTailEnabled: boolean;
+  tailStyle: TailStyle;
+  rowColors: string[];
+  rowEasings: Easing[];
+  motion?: MotionSettings;
+  layoutMode?: LayoutMode;
+  focusX: number; // Camera position along the lanes
+  laneOffset?: number; // Pixels the lanes are scrolled by across the view
+  backgroundX: number;
+  badgeX: number;
+  badgeY?: number; // Centre of a stemless badge; unset for horizontal lanes, where it sits in the top slot
+  wrapMarkers?: number[]; // Positions of the wrap boundaries along the lanes
+  pulsingRows: Set<number>;
+  background?: string;
+  isGridHidden?: boolean;
+  isBadgeHidden?: boolean;
+  overlay?: FrameOverlay;
+}
+
+/** One drawn block, in CSS pixels, centred on (cx, cy). */
+export interface FrameChip {
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  scale: number;
+  opacity: number;
+  label: string;
+  color: string; // Row colour, used for the pulse glow and border
+  labelColor: string; // Row colour after the tail's hue shift
+  isHead: boolean;
+  isLeaderHead: boolean;
+  isPulsingHead: boolean;
+}
+
+export interface GridLines {
+  xs: number[];
+  ys: number[];
+  ringRadii: number[]; // Guide circles of the ring layout, around the view centre
+}
+
+export interface BadgeLayout {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export type FrameSettings = Pick<CanvasFrame,
+  'movementValues' | 'width' | 'height' | 'shouldWrap' | 'wrapModulus' | 'isFollowEnabled' | 'isTailEnabled' | 'tailStyle' | 'rowColors' | 'rowEasings' | 'motion' | 'layoutMode'> & {
+  overlays?: OverlaySettings;
+  view?: ViewTransform;
+};
+
+export const APP_BACKGROUND = '#070709';
+
+export const MONO_FONT = 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace';
+export const CHIP_FILL = 'rgba(24, 24, 27, 0.95)';
+export const CHIP_BORDER = 'rgba(255, 255, 255, 0.1)';
+export const LEADER_BORDER = 'rgba(99, 102, 241, 0.4)';
+export const LEADER_TEXT = '#818cf8';
+export const LEADER_GLOW = 'rgba(99, 102, 241, 0.2)';
+export const BADGE_FILL = 'rgba(9, 9, 11, 0.8)';
+export const BADGE_STEM_COLOR = 'rgba(99, 102, 241, 0.5)';
+export const BADGE_STEM_FADE = 'rgba(99, 102, 241, 0)';
+
+export const GRID_OPACITY = 0.03;
+export const WRAP_MARKER_COLOR = 'rgba(16, 185, 129, 0.5)';
+export const LEADER_GLOW_BLUR = 20;
+export const BADGE_GLOW_BLUR = 30;
+
+// Below this block height labels are unreadable, so only the chips are drawn
+export const MIN_LABEL_BLOCK_HEIGHT = 6;
+// Below this block height chips are plain squares without corners or borders
+export const MIN_ROUNDED_BLOCK_HEIGHT = 4;
+// Blur of a pulsing head's glow, relative to the block height
+export const PULSE_GLOW_SCALE = 0.6;
+
+// Layout of the floating N badge (px-4, py-1.5, text-xl, 12px stem)
+const BADGE_TOP = 9;
+const BADGE_PADDING_X = 16;
+const BADGE_PADDING_Y = 6;
+export const BADGE_FONT_SIZE = 20;
+export const BADGE_STEM = 12;
+
+// Overlay notes stacked under the badge stem (text-[11px], px-1.5, leading-4)
+export const BADGE_NOTE_FONT_SIZE = 11;
+export const BADGE_NOTE_PADDING_X = 6;
+export const BADGE_NOTE_LINE_HEIGHT = 16;
+const BADGE_NOTE_GAP = 2;
+
+// Keeps the badge clear of the left edge when vertical lanes are narrow
+const VERTICAL_BADGE_INSET = 40;
+
+// Rows on rings always show N mod v, whatever the motion model
+const RING_MOTION: MotionSettings = { model: 'phase', amplitude: 0 };
+
+// Ruler ticks along the top edge; labels only where ticks are this far apart
+export const RULER_TICK_HEIGHT = 6;
+export const RULER_FONT_SIZE = 9;
+export const RULER_LABEL_SPACING = 32;
+
+/**
+ * Positions of the one-pixel grid lines. Lines across the lanes shift with
+ * the camera; the ring layout gets one guide circle per row instead.
+ */
+export const getGridLines = (frame: Pick<CanvasFrame, 'width' | 'height' | 'itemSize' | 'backgroundX' | 'laneOffset' | 'layoutMode' | 'movementValues'>): GridLines => {
+  const { width, height, itemSize, backgroundX, laneOffset = 0, layoutMode = 'lanes', movementValues } = frame;
+  const lines: GridLines = { xs: [], ys: [], ringRadii: [] };
+  if (itemSize < 2) return lines;
+
+  if (layoutMode === 'polar') {
+    const rings = getRingLayout(width, height, movementValues.length);
+    lines.ringRadii = movementValues.map((_, rowIndex) => getRingRadius(rings, rowIndex));
+    return lines;
+  }
+
+  const isVertical = layoutMode === 'vertical';
+  const across = isVertical ? lines.ys : lines.xs;
+  const along = isVertical ? lines.xs : lines.ys;
+  const trackLength = isVertical ? height : width;
+  const laneSpan = isVertical ? width : height;
+  for (let p = backgroundX - itemSize; p < trackLength + itemSize; p += itemSize) across.push(p);
+  for (let p = getLaneGridShift(laneOffset, itemSize); p < laneSpan; p += itemSize) along.push(p);
+  return lines;
+};
+
+/** Offset of the first grid line between lanes once they are scrolled by `laneOffset`. */
+export const getLaneGridShift = (laneOffset: number, itemSize: number) => ((-laneOffset % itemSize) + itemSize) % itemSize;
+
+/** One-pixel lines across the lanes at each wrap boundary, as rectangles. */
+export const getWrapMarkerRects = (frame: Pick<CanvasFrame, 'width' | 'height' | 'layoutMode' | 'wrapMarkers'>) => {
+  const { width, height, layoutMode, wrapMarkers = [] } = frame;
+  return wrapMarkers.map((p) => (layoutMode === 'vertical'
+    ? { x: 0, y: p - 0.5, width, height: 1 }
+    : { x: p - 0.5, y: 0, width: 1, height }));
+};
+
+const drawGrid = (ctx: CanvasRenderingContext2D, frame: CanvasFrame) => {
+  const { width, height } = frame;
+  const { xs, ys, ringRadii } = getGridLines(frame);
+  ctx.save();
+  ctx.globalAlpha = GRID_OPACITY;
+  ctx.fillStyle = '#fff';
+  ctx.strokeStyle = '#fff';
+  ctx.lineWidth = 1;
+  xs.forEach((x) => ctx.fillRect(x, 0, 1, height));
+  ys.forEach((y) => ctx.fillRect(0, y, width, 1));
+  ringRadii.forEach((radius) => {
+    ctx.beginPath();
+    ctx.arc(width / 2, height / 2, radius, 0, 2 * Math.PI);
+    ctx.stroke();
+  });
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = WRAP_MARKER_COLOR;
+  getWrapMarkerRects(frame).forEach(({ x, y, width: w, height: h }) => ctx.fillRect(x, y, w, h));
+  ctx.restore();
+};
+
+/**
+ * Box of the N badge around a label `textWidth` pixels wide: in the top
+ * slot above `badgeX`, or centred on (badgeX, badgeY) when `badgeY` is set.
+ */
+export const getBadgeLayout = (textWidth: number, badgeX: number, itemSize: number, badgeY?: number): BadgeLayout => {
+  const width = textWidth + BADGE_PADDING_X * 2 + 2;
+  const height = BADGE_FONT_SIZE + BADGE_PADDING_Y * 2 + 2;
+  return {
+    left: badgeX - width / 2,
+    top: badgeY === undefined ? BADGE_TOP + (itemSize - height - BADGE_STEM) / 2 : badgeY - height / 2,
+    width,
+    height,
+  };
+};
+
+/** Top edge of the `index`th overlay note under the badge. */
+export const getBadgeNoteTop = (badge: BadgeLayout, index: number) => {
+  return badge.top + badge.height + BADGE_STEM + BADGE_NOTE_GAP + index * (BADGE_NOTE_LINE_HEIGHT + BADGE_NOTE_GAP);
+};
+
+/** Whether ruler ticks are far enough apart to carry their N labels. */
+export const hasRulerLabels = (ticks: RulerTick[]) => {
+  return ticks.length < 2 || ticks[1].x - ticks[0].x >= RULER_LABEL_SPACING;
+};
+
+const drawRuler = (ctx: CanvasRenderingContext2D, ticks: RulerTick[], color: string) => {
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.globalAlpha = 0.8;
+  ticks.forEach(({ x }) => ctx.fillRect(x - 0.5, 0, 1, RULER_TICK_HEIGHT));
+  if (hasRulerLabels(ticks)) {
+    ctx.font = `bold ${RULER_FONT_SIZE}px ${MONO_FONT}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ticks.forEach(({ n, x }) => ctx.fillText(formatMovementValue(n), x, RULER_TICK_HEIGHT + 1));
+  }
+  ctx.restore();
+};
+
+const drawBadge = (
+  ctx: CanvasRenderingContext2D,
+  label: string,
+  badgeX: number,
+  badgeY: number | undefined,
+  itemSize: number,
+  notes: string[]
+) => {
+  ctx.save();
+  ctx.font = `900 ${BADGE_FONT_SIZE}px ${MONO_FONT}`;
+  const { left, top, width: boxWidth, height: boxHeight } = getBadgeLayout(ctx.measureText(label).width, badgeX, itemSize, badgeY);
+
+  ctx.shadowColor = LEADER_GLOW;
+  ctx.shadowBlur = BADGE_GLOW_BLUR;
+  ctx.fillStyle = BADGE_FILL;
+  ctx.beginPath();
+  ctx.roundRect(left, top, boxWidth, boxHeight, 4);
+  ctx.fill();
+  ctx.shadowBlur = 0;
+  ctx.strokeStyle = LEADER_BORDER;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.roundRect(left + 0.5, top + 0.5, boxWidth - 1, boxHeight - 1, 4);
+  ctx.stroke();
+
+  ctx.fillStyle = LEADER_TEXT;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, badgeX, top + boxHeight / 2);
+
+  if (badgeY === undefined) {
+    const stem = ctx.createLinearGradient(0, top + boxHeight, 0, top + boxHeight + BADGE_STEM);
+    stem.addColorStop(0, BADGE_STEM_COLOR);
+    stem.addColorStop(1, BADGE_STEM_FADE);
+    ctx.fillStyle = stem;
+    ctx.fillRect(badgeX - 0.5, top + boxHeight, 1, BADGE_STEM);
+  }
+
+  ctx.font = `bold ${BADGE_NOTE_FONT_SIZE}px ${MONO_FONT}`;
+  notes.forEach((note, index) => {
+    const noteWidth = ctx.measureText(note).width + BADGE_NOTE_PADDING_X * 2;
+    const noteTop = getBadgeNoteTop({ left, top, width: boxWidth, height: boxHeight }, index);
+    ctx.fillStyle = BADGE_FILL;
+    ctx.beginPath();
+    ctx.roundRect(badgeX - noteWidth / 2, noteTop, noteWidth, BADGE_NOTE_LINE_HEIGHT, 3);
+    ctx.fill();
+    ctx.fillStyle = LEADER_TEXT;
+    ctx.fillText(note, badgeX, noteTop + BADGE_NOTE_LINE_HEIGHT / 2);
+  });
+  ctx.restore();
+};
+
+/**
+ * Every block of the frame in paint order: rows top to bottom, each from
+ * its oldest tail block to its head. Blocks outside the frame are skipped.
+ */
+export const getFrameChips = (frame: CanvasFrame): FrameChip[] => {
+  const {
+    currentStep,
+    movementValues,
+    width,
+    height,
+    itemSize,
+    shouldWrap,
+    wrapModulus,
+    isFollowEnabled,
+    isTailEnabled,
+    tailStyle,
+    rowColors,
+    rowEasings,
+    motion,
+    layoutMode = 'lanes',
+    focusX,
+    laneOffset = 0,
+    pulsingRows,
+    overlay,
+  } = frame;
+  const { blockHeight, verticalOffset, minWidth } = getBlockMetrics(itemSize);
+  const boxWidth = minWidth + BLOCK_GUTTER * 2;
+  const isVertical = layoutMode === 'vertical';
+  const trackLength = isVertical ? height : width;
+  const laneSpan = isVertical ? width : height;
+  const rings = layoutMode === 'polar' ? getRingLayout(width, height, movementValues.length) : null;
+  const chips: FrameChip[] = [];
+
+  for (let rowIndex = 0; rowIndex < movementValues.length; rowIndex++) {
+    // Lanes start one slot in, leaving the first slot for the N badge
+    const rowTop = (rowIndex + 1) * itemSize - laneOffset;
+    if (!rings && rowTop >= laneSpan) break;
+    if (!rings && rowTop + itemSize <= 0) continue;
+
+    const movementValue = movementValues[rowIndex];
+    const label = formatMovementValue(movementValue);
+    const color = rowColors[rowIndex];
+    const addChip = (cx: number, cy: number, pos: Omit<RowPosition, 'x'>) => {
+      const scale = pos.scale ?? 1;
+      chips.push({
+        cx,
+        cy,
+        width: minWidth * scale,
+        height: blockHeight * scale,
+        scale,
+        opacity: pos.opacity,
+        label,
+        color,
+        labelColor: pos.isHead && overlay?.tintedRows.has(rowIndex) ? DIVISOR_TINT : shiftHue(color, pos.hueShift ?? 0),
+        isHead: pos.isHead,
+        isLeaderHead: rowIndex === 0 && pos.isHead,
+        isPulsingHead: pos.isHead && pulsingRows.has(rowIndex),
+      });
+    };
+
+    if (rings) {
+      const { head, tail } = computeRowTrack({
+        currentStep,
+        movementValue,
+        rowIndex,
+        motion: RING_MOTION,
+        easing: rowEasings[rowIndex],
+        tailStyle: isTailEnabled ? tailStyle : undefined,
+      });
+      for (let i = tail.length - 1; i >= 0; i--) {
+        const { displacement, jitter, opacity, scale, hueShift } = tail[i];
+        const point = getRingPoint(rings, rowIndex, movementValue, displacement, jitter * TAIL_JITTER_PX);
+        addChip(point.x, point.y, { isHead: false, opacity, scale, hueShift });
+      }
+      const point = getRingPoint(rings, rowIndex, movementValue, head);
+      addChip(point.x, point.y, { isHead: true, opacity: 1 });
+      continue;
+    }
+
+    const positions = computeRowPositions({
+      currentStep,
+      movementValue,
+      itemSize,
+      wrapWidth: trackLength,
+      wrapModulus,
+      shouldWrap,
+      isFollowEnabled,
+      isTailEnabled,
+      tailStyle,
+      focusX,
+      viewportWidth: trackLength,
+      easing: rowEasings[rowIndex],
+      rowIndex,
+      motion,
+    });
+    const laneCenter = rowTop + verticalOffset + blockHeight / 2;
+
+    // Tails first so the head is painted on top
+    for (let i = positions.length - 1; i >= 0; i--) {
+      const pos = positions[i];
+      if (pos.x + boxWidth < 0 || pos.x > trackLength) continue;
+      const along = pos.x + boxWidth / 2;
+      if (isVertical) addChip(laneCenter, along, pos);
+      else addChip(along, laneCenter, pos);
+    }
+  }
+  return chips;
+};
+
+/**
+ * Paints one frame of the 2D visualization: grid, rows with their tails and
+ * the floating N badge. Expects the context transform to map CSS pixels.
+ */
+export const drawFrame = (ctx: CanvasRenderingContext2D, frame: CanvasFrame) => {
+  const {
+    currentStep,
+    width,
+    height,
+    itemSize,
+    badgeX,
+    badgeY,
+    background,
+    isGridHidden,
+    isBadgeHidden,
+    overlay,
+  } = frame;
+
+  ctx.clearRect(0, 0, width, height);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  if (!isGridHidden) drawGrid(ctx, frame);
+
+  const {
+    blockHeight,
+    fontSize,
+    borderRadius,
+    headBorderWidth,
+  } = getBlockMetrics(itemSize);
+  const showLabels = blockHeight >= MIN_LABEL_BLOCK_HEIGHT;
+  const rounded = blockHeight >= MIN_ROUNDED_BLOCK_HEIGHT;
+
+  ctx.font = `bold ${fontSize}px ${MONO_FONT}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  getFrameChips(frame).forEach((chip) => {
+    const { cx, cy, width: w, height: h, scale, color, isLeaderHead, isPulsingHead } = chip;
+
+    ctx.globalAlpha = chip.opacity;
+    ctx.fillStyle = CHIP_FILL;
+    if (isPulsingHead) {
+      ctx.shadowColor = color;
+      ctx.shadowBlur = blockHeight * PULSE_GLOW_SCALE;
+    } else if (isLeaderHead) {
+      ctx.shadowColor = LEADER_GLOW;
+      ctx.shadowBlur = LEADER_GLOW_BLUR;
+    }
+    if (rounded) {
+      ctx.beginPath();
+      ctx.roundRect(cx - w / 2, cy - h / 2, w, h, borderRadius * scale);
+      ctx.fill();
+    } else {
+      ctx.fillRect(cx - w / 2, cy - h / 2, w, h);
+    }
+    ctx.shadowBlur = 0;
+
+    if (chip.isHead && rounded) {
+      const lw = headBorderWidth * scale;
+      ctx.strokeStyle = isPulsingHead ? color : (isLeaderHead ? LEADER_BORDER : CHIP_BORDER);
+      ctx.lineWidth = lw;
+      ctx.beginPath();
+      ctx.roundRect(cx - w / 2 + lw / 2, cy - h / 2 + lw / 2, w - lw, h - lw, borderRadius * scale);
+      ctx.stroke();
+    }
+
+    if (showLabels) {
+      ctx.fillStyle = chip.labelColor;
+      ctx.save();
+      ctx.translate(cx, cy);
+      ctx.scale(scale, scale);
+      ctx.fillText(chip.label, 0, 0);
+      ctx.restore();
+    }
+  });
+  ctx.globalAlpha = 1;
+
+  if (overlay && overlay.rulerTicks.length > 0) drawRuler(ctx, overlay.rulerTicks, overlay.rulerColor);
+  if (!isBadgeHidden) drawBadge(ctx, Math.floor(currentStep).toString(), badgeX, badgeY, itemSize, overlay?.badgeNotes ?? []);
+};
+
+export type FrameGeometry = Pick<CanvasFrame, 'itemSize' | 'isFollowEnabled' | 'focusX' | 'laneOffset' | 'backgroundX' | 'badgeX' | 'badgeY' | 'wrapMarkers'>;
+
+/**
+ * Slot size, camera and badge position for a layout. Lanes are measured
+ * along their track, so vertical lanes swap the roles of width and height;
+ * rings do not move with the camera and keep the badge at their centre.
+ * Lanes are zoomed and panned by `view`; a panned camera stays where it was
+ * dragged, as if following a still leader.
+ */
+export const getFrameGeometry = (
+  currentStep: number,
+  scene: Pick<CanvasFrame, 'movementValues' | 'width' | 'height' | 'shouldWrap' | 'wrapModulus' | 'isFollowEnabled' | 'rowEasings' | 'motion' | 'layoutMode'>,
+  view: ViewTransform = DEFAULT_VIEW
+): FrameGeometry => {
+  const { movementValues, width, height, shouldWrap, wrapModulus, isFollowEnabled, rowEasings, motion, layoutMode = 'lanes' } = scene;
+
+  if (layoutMode === 'polar') {
+    const rings = getRingLayout(width, height, movementValues.length);
+    return { itemSize: rings.ringSpacing, isFollowEnabled, focusX: 0, backgroundX: 0, badgeX: rings.centerX, badgeY: rings.centerY, wrapMarkers: [] };
+  }
+
+  const isVertical = layoutMode === 'vertical';
+  const trackLength = isVertical ? height : width;
+  const bounds = { rowCount: movementValues.length, laneSpan: isVertical ? width : height };
+  const itemSize = getFittedSlotSize(bounds) * view.zoom;
+  const isCameraFollowing = isFollowEnabled || view.focus !== null;
+  const cameraOffset = view.focus !== null ? view.focus * itemSize : getCameraOffset(currentStep, itemSize, rowEasings[0], motion);
+  const wrapPeriod = shouldWrap ? getQuantizedWrapWidth(trackLength, itemSize, wrapModulus) : 0;
+  const leaderXOffset = getLeaderOffset(currentStep, itemSize, rowEasings[0], motion);
+  const focusX = getFocusX(cameraOffset, isCameraFollowing, wrapPeriod);
+  const layout = { itemSize, wrapWidth: trackLength, wrapModulus, shouldWrap, isFollowEnabled: isCameraFollowing, focusX, viewportWidth: trackLength };
+  const badgeAlong = getBadgeX(leaderXOffset, layout);
+
+  return {
+    itemSize,
+    isFollowEnabled: isCameraFollowing,
+    focusX,
+    laneOffset: clampRowOffset(view.rowOffset, view.zoom, bounds) * itemSize,
+    backgroundX: getBackgroundX(trackLength, focusX, itemSize, isCameraFollowing),
+    badgeX: isVertical ? Math.max(itemSize / 2, VERTICAL_BADGE_INSET) : badgeAlong,
+    badgeY: isVertical ? badgeAlong : undefined,
+    wrapMarkers: getWrapMarkers(layout),
+  };
+};
+
+/**
+ * Full frame description for N = currentStep at an arbitrary resolution,
+ * laid out the same way App lays out the on-screen view.
+ */
+export const buildCanvasFrame = (currentStep: number, settings: FrameSettings): CanvasFrame => {
+  const { overlays, view, ...scene } = settings;
+  const { movementValues, width, shouldWrap, wrapModulus, rowColors, layoutMode } = scene;
+  const geometry = getFrameGeometry(currentStep, scene, view);
+  const overlay = overlays && buildFrameOverlay(overlays, {
+    currentStep,
+    movementValues,
+    rowColors,
+    itemSize: geometry.itemSize,
+    wrapWidth: width,
+    wrapModulus,
+    shouldWrap,
+    isFollowEnabled: geometry.isFollowEnabled,
+    focusX: geometry.focusX,
+    viewportWidth: width,
+    layoutMode,
+  });
+
+  return {
+    ...scene,
+    ...geometry,
+    currentStep,
+    pulsingRows: new Set(getPulsingRows(currentStep, movementValues)),
+    background: APP_BACKGROUND,
+    overlay,
+  };
+};
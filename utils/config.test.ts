@@ -0,0 +1,9 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeConfig } from './config';
+
+describe('sanitizeConfig', () => {
+  it('keeps N at or above zero', () => {
+    expect(sanitizeConfig({ currentStep: -12 }).currentStep).toBe(0);
+    expect(sanitizeConfig({ currentStep: 7.5 }).currentStep).toBe(7.5);
+  });
+});
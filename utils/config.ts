@@ -0,0 +1,134 @@
+import { BezierCurve, EasingType, LayoutMode, MotionModel, OscillatorConfig, SequenceSource, SyncMode, ViewMode } from '../types';
+import {
+  DEFAULT_CONFIG,
+  EASING_TYPES,
+  LAYOUT_MODES,
+  MAX_BPM,
+  MAX_CANVAS_ROWS,
+  MAX_MOTION_AMPLITUDE,
+  MAX_DOM_ROWS,
+  MAX_RATIONAL_DENOMINATOR,
+  MAX_SPEED,
+  MAX_STEPS_PER_SECOND,
+  MAX_TRANSITION_WIDTH,
+  MAX_WRAP_MODULUS,
+  MIN_BPM,
+  MIN_MOTION_AMPLITUDE,
+  MIN_SPEED,
+  MIN_STEPS_PER_SECOND,
+  MIN_TRANSITION_WIDTH,
+  MOTION_MODELS,
+  SEQUENCE_SOURCES,
+  SYNC_MODES,
+  VIEW_MODES,
+} from '../constants';
+import { clamp } from './math';
+import { isHexColor } from './palette';
+
+export type RawConfig = { [K in keyof OscillatorConfig]?: unknown };
+
+export const getMaxRowCount = (viewMode: ViewMode) => {
+  return viewMode === 'canvas' ? MAX_CANVAS_ROWS : MAX_DOM_ROWS;
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value);
+};
+
+const pickOption = <T extends string>(value: unknown, options: readonly T[], fallback: T): T => {
+  return options.includes(value as T) ? (value as T) : fallback;
+};
+
+const pickBoolean = (value: unknown, fallback: boolean) => {
+  return typeof value === 'boolean' ? value : fallback;
+};
+
+const clampTransitionWidth = (value: number) => clamp(value, MIN_TRANSITION_WIDTH, MAX_TRANSITION_WIDTH);
+
+// Control point x values must stay within 0..1; y may overshoot for bouncy curves
+const sanitizeBezierCurve = (value: unknown, fallback: BezierCurve): BezierCurve => {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every(isFiniteNumber)) return fallback;
+  const [x1, y1, x2, y2] = value;
+  return [clamp(x1, 0, 1), clamp(y1, -1, 2), clamp(x2, 0, 1), clamp(y2, -1, 2)];
+};
+
+const sanitizeRowTransitionWidths = (value: unknown, fallback: Record<number, number>) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return fallback;
+  const widths: Record<number, number> = {};
+  Object.entries(value).forEach(([key, width]) => {
+    const rowIndex = Number(key);
+    if (Number.isInteger(rowIndex) && rowIndex >= 0 && isFiniteNumber(width)) {
+      widths[rowIndex] = clampTransitionWidth(width);
+    }
+  });
+  return widths;
+};
+
+const sanitizeRowColors = (value: unknown, fallback: Record<number, string>) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return fallback;
+  const colors: Record<number, string> = {};
+  Object.entries(value).forEach(([key, color]) => {
+    const rowIndex = Number(key);
+    if (Number.isInteger(rowIndex) && rowIndex >= 0 && isHexColor(color)) {
+      colors[rowIndex] = color.toLowerCase();
+    }
+  });
+  return colors;
+};
+
+/**
+ * Builds a complete configuration from untrusted values. Fields that are
+ * missing or invalid fall back to `fallback`; numbers are clamped to the
+ * ranges the control panel allows.
+ */
+export const sanitizeConfig = (raw: RawConfig, fallback: OscillatorConfig = DEFAULT_CONFIG): OscillatorConfig => {
+  const viewMode = pickOption<ViewMode>(raw.viewMode, VIEW_MODES, fallback.viewMode);
+
+  const rowCount = isFiniteNumber(raw.rowCount)
+    ? clamp(Math.round(raw.rowCount), 1, getMaxRowCount(viewMode))
+    : Math.min(fallback.rowCount, getMaxRowCount(viewMode));
+
+  // Negative velocities play in reverse; only the magnitude is clamped
+  const speedMultiplier = isFiniteNumber(raw.speedMultiplier) && raw.speedMultiplier !== 0
+    ? Math.sign(raw.speedMultiplier) * clamp(Math.abs(raw.speedMultiplier), MIN_SPEED, MAX_SPEED)
+    : fallback.speedMultiplier;
+
+  return {
+    currentStep: isFiniteNumber(raw.currentStep) ? Math.max(0, raw.currentStep) : fallback.currentStep,
+    rowCount,
+    speedMultiplier,
+    syncMode: pickOption<SyncMode>(raw.syncMode, SYNC_MODES, fallback.syncMode),
+    bpm: isFiniteNumber(raw.bpm) ? clamp(raw.bpm, MIN_BPM, MAX_BPM) : fallback.bpm,
+    stepsPerSecond: isFiniteNumber(raw.stepsPerSecond)
+      ? clamp(raw.stepsPerSecond, MIN_STEPS_PER_SECOND, MAX_STEPS_PER_SECOND)
+      : fallback.stepsPerSecond,
+    syncEpoch: isFiniteNumber(raw.syncEpoch) ? raw.syncEpoch : fallback.syncEpoch,
+    // Custom palette and tail ids cannot be checked here; unknown ids render as the defaults
+    colorPalette: typeof raw.colorPalette === 'string' && raw.colorPalette ? raw.colorPalette : fallback.colorPalette,
+    tailType: typeof raw.tailType === 'string' && raw.tailType ? raw.tailType : fallback.tailType,
+    isFollowEnabled: pickBoolean(raw.isFollowEnabled, fallback.isFollowEnabled),
+    isTailEnabled: pickBoolean(raw.isTailEnabled, fallback.isTailEnabled),
+    shouldWrap: pickBoolean(raw.shouldWrap, fallback.shouldWrap),
+    viewMode,
+    sequenceSource: pickOption<SequenceSource>(raw.sequenceSource, SEQUENCE_SOURCES.map((q) => q.id), fallback.sequenceSource),
+    customSequence: typeof raw.customSequence === 'string' ? raw.customSequence : fallback.customSequence,
+    rationalDenominator: isFiniteNumber(raw.rationalDenominator)
+      ? clamp(Math.round(raw.rationalDenominator), 1, MAX_RATIONAL_DENOMINATOR)
+      : fallback.rationalDenominator,
+    easingType: pickOption<EasingType>(raw.easingType, EASING_TYPES.map((e) => e.id), fallback.easingType),
+    bezierCurve: sanitizeBezierCurve(raw.bezierCurve, fallback.bezierCurve),
+    transitionWidth: isFiniteNumber(raw.transitionWidth)
+      ? clampTransitionWidth(raw.transitionWidth)
+      : fallback.transitionWidth,
+    rowTransitionWidths: sanitizeRowTransitionWidths(raw.rowTransitionWidths, fallback.rowTransitionWidths),
+    rowColors: sanitizeRowColors(raw.rowColors, fallback.rowColors),
+    motionModel: pickOption<MotionModel>(raw.motionModel, MOTION_MODELS.map((m) => m.id), fallback.motionModel),
+    motionAmplitude: isFiniteNumber(raw.motionAmplitude)
+      ? clamp(raw.motionAmplitude, MIN_MOTION_AMPLITUDE, MAX_MOTION_AMPLITUDE)
+      : fallback.motionAmplitude,
+    wrapModulus: isFiniteNumber(raw.wrapModulus)
+      ? clamp(Math.round(raw.wrapModulus), 0, MAX_WRAP_MODULUS)
+      : fallback.wrapModulus,
+    layoutMode: pickOption<LayoutMode>(raw.layoutMode, LAYOUT_MODES.map((l) => l.id), fallback.layoutMode),
+  };
+};
@@ -0,0 +1,132 @@
+import { OscillatorConfig, TriggerEvent } from '../types';
+
+/**
+ * Scripting interface of a running app, available as `window.harmonicOscillator`
+ * and, for host pages of an iframe, through the postMessage protocol below.
+ * Rows triggering at an integer N pulse while paused there, so
+ * `setN(12)` shows the divisors of 12 among the movement values.
+ */
+export interface OscillatorControlApi {
+  getState: () => OscillatorState;
+  /** Jumps to N and pauses, leaving any clock-driven sync mode. */
+  setN: (n: number) => void;
+  play: () => void;
+  pause: () => void;
+  /** Velocity in steps per ms; negative values play in reverse. */
+  setSpeed: (speedMultiplier: number) => void;
+  /** Changes any configuration fields, e.g. `{ rowCount: 12, colorPalette: 'viridis', tailType: 'comet' }`. */
+  setConfig: (patch: Partial<OscillatorConfig>) => void;
+  /** Returns a function that removes the listener. */
+  on: <E extends ControlEventName>(event: E, listener: (detail: ControlEventDetail[E]) => void) => () => void;
+}
+
+export interface OscillatorState {
+  n: number;
+  isPlaying: boolean;
+  config: OscillatorConfig;
+}
+
+export interface ControlEventDetail {
+  step: { n: number }; // Sent whenever the integer part of N changes
+  trigger: TriggerEvent;
+}
+
+export type ControlEventName = keyof ControlEventDetail;
+
+export const CONTROL_EVENTS: ControlEventName[] = ['step', 'trigger'];
+
+export type ControlCommandName = 'getState' | 'setN' | 'play' | 'pause' | 'setSpeed' | 'setConfig' | 'subscribe' | 'unsubscribe';
+
+export const CONTROL_COMMANDS: ControlCommandName[] = ['getState', 'setN', 'play', 'pause', 'setSpeed', 'setConfig', 'subscribe', 'unsubscribe'];
+
+// postMessage protocol. The host sends commands; the app answers each one
+// that carries an `id`, and forwards events to hosts that subscribed.
+export const MESSAGE_PREFIX = 'harmonic-oscillator:';
+
+export interface ControlCommandMessage {
+  type: 'harmonic-oscillator:command';
+  id?: string | number;
+  command: ControlCommandName;
+  args?: unknown[]; // `subscribe`/`unsubscribe` take the event name
+}
+
+export interface ControlResponseMessage {
+  type: 'harmonic-oscillator:response';
+  id: string | number;
+  result?: unknown;
+  error?: string;
+}
+
+export interface ControlEventMessage<E extends ControlEventName = ControlEventName> {
+  type: 'harmonic-oscillator:event';
+  event: E;
+  detail: ControlEventDetail[E];
+}
+
+declare global {
+  interface Window {
+    harmonicOscillator?: OscillatorControlApi;
+  }
+}
+
+export class ControlCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ControlCommandError';
+  }
+}
+
+export const isControlCommandMessage = (data: unknown): data is ControlCommandMessage => {
+  if (typeof data !== 'object' || data === null) return false;
+  const message = data as Record<string, unknown>;
+  return message.type === `${MESSAGE_PREFIX}command`
+    && CONTROL_COMMANDS.includes(message.command as ControlCommandName)
+    && (message.args === undefined || Array.isArray(message.args));
+};
+
+/**
+ * Origins allowed to send commands, from a comma-separated list. The page's
+ * own origin is always allowed; `*` allows any origin.
+ */
+export const parseAllowedOrigins = (value: string | undefined) => {
+  return (value ?? '').split(',').map((origin) => origin.trim()).filter(Boolean);
+};
+
+export const isOriginAllowed = (origin: string, allowedOrigins: string[], ownOrigin: string) => {
+  return origin === ownOrigin || allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+};
+
+const expectNumber = (value: unknown, name: string) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ControlCommandError(`${name} must be a finite number`);
+  }
+  return value;
+};
+
+export const expectEventName = (value: unknown): ControlEventName => {
+  if (!CONTROL_EVENTS.includes(value as ControlEventName)) {
+    throw new ControlCommandError(`Unknown event: ${String(value)}`);
+  }
+  return value as ControlEventName;
+};
+
+/** Runs a non-subscription command from a message against the API. */
+export const runControlCommand = (api: OscillatorControlApi, command: ControlCommandName, args: unknown[]) => {
+  switch (command) {
+    case 'getState':
+      return api.getState();
+    case 'setN':
+      return api.setN(expectNumber(args[0], 'n'));
+    case 'play':
+      return api.play();
+    case 'pause':
+      return api.pause();
+    case 'setSpeed':
+      return api.setSpeed(expectNumber(args[0], 'speedMultiplier'));
+    case 'setConfig':
+      if (typeof args[0] !== 'object' || args[0] === null) throw new ControlCommandError('setConfig expects an object');
+      return api.setConfig(args[0] as Partial<OscillatorConfig>);
+    default:
+      throw new ControlCommandError(`${command} is handled by the message listener`);
+  }
+};
@@ -0,0 +1,10 @@
+/** Saves a blob through a temporary link. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download before it starts
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
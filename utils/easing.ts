@@ -0,0 +1,97 @@
+import { BezierCurve, EasingType } from '../types';
+
+export type EasingFunction = (t: number) => number;
+
+/** How a row moves into its next trigger: the curve and how long (in N units) it takes. */
+export interface Easing {
+  ease: EasingFunction;
+  width: number;
+}
+
+export const smoothstep: EasingFunction = (t) => t * t * (3 - 2 * t);
+
+const ELASTIC_PERIOD = (2 * Math.PI) / 3;
+const SPRING_DAMPING = 6;
+const SPRING_FREQUENCY = 12;
+// Rescales the damped cosine so the spring lands exactly on 1
+const SPRING_END = 1 - Math.exp(-SPRING_DAMPING) * Math.cos(SPRING_FREQUENCY);
+
+const PRESET_EASINGS: Record<Exclude<EasingType, 'bezier'>, EasingFunction> = {
+  linear: (t) => t,
+  // Holds position until the trigger itself, then jumps
+  instant: (t) => (t >= 1 ? 1 : 0),
+  smoothstep,
+  'ease-in-cubic': (t) => t * t * t,
+  'ease-out-cubic': (t) => 1 - Math.pow(1 - t, 3),
+  'ease-in-out-cubic': (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  elastic: (t) => {
+    if (t <= 0 || t >= 1) return t <= 0 ? 0 : 1;
+    return Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ELASTIC_PERIOD) + 1;
+  },
+  spring: (t) => (1 - Math.exp(-SPRING_DAMPING * t) * Math.cos(SPRING_FREQUENCY * t)) / SPRING_END,
+};
+
+/**
+ * CSS-style cubic-bezier easing from (0, 0) to (1, 1). The curve parameter
+ * for a given t is found with Newton's method, falling back to bisection
+ * where the slope is too flat.
+ */
+export const cubicBezier = ([x1, y1, x2, y2]: BezierCurve): EasingFunction => {
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (u: number) => ((ax * u + bx) * u + cx) * u;
+  const sampleY = (u: number) => ((ay * u + by) * u + cy) * u;
+  const slopeX = (u: number) => (3 * ax * u + 2 * bx) * u + cx;
+
+  const solveU = (x: number) => {
+    let u = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(u) - x;
+      if (Math.abs(error) < 1e-6) return u;
+      const slope = slopeX(u);
+      if (Math.abs(slope) < 1e-6) break;
+      u -= error / slope;
+    }
+    let lo = 0;
+    let hi = 1;
+    u = x;
+    for (let i = 0; i < 30; i++) {
+      const value = sampleX(u);
+      if (Math.abs(value - x) < 1e-6) break;
+      if (value < x) lo = u;
+      else hi = u;
+      u = (lo + hi) / 2;
+    }
+    return u;
+  };
+
+  return (t) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return sampleY(solveU(t));
+  };
+};
+
+export const getEasingFunction = (type: EasingType, bezierCurve: BezierCurve): EasingFunction => {
+  return type === 'bezier' ? cubicBezier(bezierCurve) : PRESET_EASINGS[type];
+};
+
+/** Easing of every row: one shared curve, with the transition width overridable per row. */
+export const getRowEasings = (
+  rowCount: number,
+  type: EasingType,
+  bezierCurve: BezierCurve,
+  transitionWidth: number,
+  rowTransitionWidths: Record<number, number>
+): Easing[] => {
+  const ease = getEasingFunction(type, bezierCurve);
+  return Array.from({ length: rowCount }, (_, rowIndex) => ({
+    ease,
+    width: rowTransitionWidths[rowIndex] ?? transitionWidth,
+  }));
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { detectTriggerEvents, getTriggeringRows } from './events';
+import { getRowTriggerCounts } from './analysis';
+
+// Rows of the rational sequence with d = 3
+const thirds = [1, 4 / 3, 5 / 3, 2, 7 / 3];
+
+describe('getTriggeringRows', () => {
+  it('reports nothing at N = 0', () => {
+    expect(getTriggeringRows(0, thirds)).toEqual([]);
+  });
+
+  it('includes rows with fractional movement values', () => {
+    expect(getTriggeringRows(4, thirds)).toEqual([0, 1, 3]);
+    expect(getTriggeringRows(6, [1, 1.2, 1.5])).toEqual([0, 1, 2]);
+  });
+
+  it('matches exact arithmetic on thirds', () => {
+    let missed = 0;
+    for (let N = 1; N <= 420; N++) {
+      const expected = thirds.flatMap((v, rowIndex) => ((3 * N) % Math.round(3 * v) === 0 ? [rowIndex] : []));
+      if (getTriggeringRows(N, thirds).join() !== expected.join()) missed++;
+    }
+    expect(missed).toBe(0);
+  });
+});
+
+describe('detectTriggerEvents', () => {
+  it('logs the triggers of fractional rows', () => {
+    const events = detectTriggerEvents(0, 10, [1.2], null);
+    expect(events.map((event) => event.n)).toEqual([6]);
+  });
+});
+
+describe('getRowTriggerCounts', () => {
+  it('counts a trigger landing exactly on N', () => {
+    expect(getRowTriggerCounts(5, [1, 5 / 3, 1.2])).toEqual([5, 3, 4]);
+    expect(getRowTriggerCounts(0, [1, 5 / 3])).toEqual([0, 0]);
+  });
+});
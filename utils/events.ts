@@ -0,0 +1,89 @@
+import { TriggerEvent } from '../types';
+import { isTriggerAt } from './kinematics';
+
+// Only the most recent integers crossed in one update are reported, so a
+// jump across millions of steps does not flood the log
+export const MAX_EVENTS_PER_UPDATE = 64;
+
+// Fraction of a step after a trigger during which the row pulses
+export const PULSE_WINDOW = 0.35;
+
+export const gcd = (a: number, b: number): number => {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+};
+
+export const lcm = (a: number, b: number) => {
+  if (a === 0 || b === 0) return 0;
+  return Math.abs(a / gcd(a, b) * b);
+};
+
+/**
+ * Smallest N > 0 at which every given movement value triggers together.
+ * Returns null when a value is not a positive integer or the period exceeds
+ * the safe integer range.
+ */
+export const getAlignmentPeriod = (movementValues: number[]): number | null => {
+  let period = 1;
+  for (const v of movementValues) {
+    if (!Number.isInteger(v) || v <= 0) return null;
+    period = lcm(period, v);
+    if (period > Number.MAX_SAFE_INTEGER) return null;
+  }
+  return period;
+};
+
+/** Indices of the rows whose movement value divides the integer N. */
+export const getTriggeringRows = (N: number, movementValues: number[]) => {
+  const rows: number[] = [];
+  if (N === 0) return rows;
+  movementValues.forEach((v, rowIndex) => {
+    if (isTriggerAt(N, v)) rows.push(rowIndex);
+  });
+  return rows;
+};
+
+export const isAlignment = (N: number, period: number | null) => {
+  return period !== null && N !== 0 && N % period === 0;
+};
+
+/**
+ * Events for every integer N crossed moving forward from `fromStep` to
+ * `toStep`, oldest first. Backward moves report nothing.
+ */
+export const detectTriggerEvents = (
+  fromStep: number,
+  toStep: number,
+  movementValues: number[],
+  alignmentPeriod: number | null
+): TriggerEvent[] => {
+  const last = Math.floor(toStep);
+  const first = Math.max(Math.floor(fromStep) + 1, last - MAX_EVENTS_PER_UPDATE + 1);
+  const events: TriggerEvent[] = [];
+
+  for (let n = first; n <= last; n++) {
+    const rows = getTriggeringRows(n, movementValues);
+    if (rows.length === 0) continue;
+    events.push({ n, rows, isAlignment: isAlignment(n, alignmentPeriod) });
+  }
+  return events;
+};
+
+/** Rows still pulsing from the trigger at floor(currentStep). */
+export const getPulsingRows = (currentStep: number, movementValues: number[]) => {
+  const N = Math.floor(currentStep);
+  if (currentStep - N >= PULSE_WINDOW) return [];
+  return getTriggeringRows(N, movementValues);
+};
+
+export const getNextAlignment = (currentStep: number, period: number) => {
+  return (Math.floor(currentStep / period) + 1) * period;
+};
+
+export const getPreviousAlignment = (currentStep: number, period: number) => {
+  return Math.max(0, (Math.ceil(currentStep / period) - 1) * period);
+};
@@ -0,0 +1,144 @@
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+import { ExportOptions } from '../types';
+import { FrameSettings, buildCanvasFrame, drawFrame } from './canvasRenderer';
+import { ZipEntry, createZip } from './zip';
+
+export const MAX_EXPORT_FRAMES = 3600;
+
+// Largest frame width or height; 8K, above which browsers may refuse the canvas
+export const MAX_EXPORT_SIZE = 7680;
+
+// PNG frames are all held in memory until the zip is built, so their count
+// is also limited by resolution: about 960 frames at 1080p, 240 at 4K
+export const MAX_PNG_EXPORT_PIXELS = 2_000_000_000;
+
+const VIDEO_BITRATE = 12_000_000;
+
+// Frames the encoder may have queued before rendering waits for it
+const MAX_QUEUED_FRAMES = 8;
+
+const VIDEO_CODECS = [
+  { codec: 'vp09.00.10.08', muxerCodec: 'V_VP9' },
+  { codec: 'vp8', muxerCodec: 'V_VP8' },
+] as const;
+
+export type ExportSceneSettings = Omit<FrameSettings, 'width' | 'height'>;
+
+/** Most frames one export may render with these options. */
+export const getExportFrameLimit = ({ format, width, height }: ExportOptions) => {
+  if (format !== 'png') return MAX_EXPORT_FRAMES;
+  return Math.max(1, Math.min(MAX_EXPORT_FRAMES, Math.floor(MAX_PNG_EXPORT_PIXELS / (width * height))));
+};
+
+/**
+ * N value of every exported frame. Each value is derived from the frame
+ * index rather than accumulated, so long exports do not drift.
+ */
+export const getExportFrameSteps = (options: ExportOptions) => {
+  const { startStep, endStep, stepsPerFrame } = options;
+  if (!(stepsPerFrame > 0) || endStep < startStep) return [startStep];
+  const count = Math.min(Math.floor((endStep - startStep) / stepsPerFrame + 1e-9) + 1, getExportFrameLimit(options));
+  return Array.from({ length: count }, (_, i) => startStep + i * stepsPerFrame);
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode frame'))), 'image/png');
+});
+
+const pickVideoCodec = async (width: number, height: number, fps: number) => {
+  for (const { codec, muxerCodec } of VIDEO_CODECS) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate: VIDEO_BITRATE, framerate: fps };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return { config, muxerCodec };
+  }
+  return null;
+};
+
+/**
+ * Renders the N range frame by frame onto an offscreen canvas of the chosen
+ * size. Both formats are deterministic: WebM frames go through WebCodecs
+ * with timestamps taken from the frame index, so the result does not depend
+ * on how fast the machine renders.
+ */
+export async function exportFrames(
+  options: ExportOptions,
+  scene: ExportSceneSettings,
+  onProgress: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const { width, height, fps, format } = options;
+  const steps = getExportFrameSteps(options);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+
+  const render = (step: number) => drawFrame(ctx, buildCanvasFrame(step, { ...scene, width, height }));
+
+  if (format === 'png') {
+    const digits = String(steps.length).length;
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < steps.length; i++) {
+      throwIfAborted(signal);
+      render(steps[i]);
+      const blob = await canvasToBlob(canvas);
+      entries.push({
+        name: `frame_${String(i).padStart(digits, '0')}.png`,
+        data: new Uint8Array(await blob.arrayBuffer()),
+      });
+      onProgress(i + 1, steps.length);
+    }
+    return createZip(entries);
+  }
+
+  if (typeof VideoEncoder === 'undefined') throw new Error('WebM export needs WebCodecs, which this browser lacks');
+  // VP8 and VP9 encode 4:2:0 video, which needs even dimensions
+  const videoWidth = width - (width % 2);
+  const videoHeight = height - (height % 2);
+  const codec = await pickVideoCodec(videoWidth, videoHeight, fps);
+  if (!codec) throw new Error(`WebM encoding at ${videoWidth}x${videoHeight} is not supported in this browser`);
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: codec.muxerCodec, width: videoWidth, height: videoHeight, frameRate: fps },
+  });
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (err) => {
+      encodeError = err;
+    },
+  });
+  encoder.configure(codec.config);
+
+  try {
+    for (let i = 0; i < steps.length; i++) {
+      throwIfAborted(signal);
+      if (encodeError) throw encodeError;
+      render(steps[i]);
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round((i * 1e6) / fps),
+        duration: Math.round(1e6 / fps),
+        visibleRect: { x: 0, y: 0, width: videoWidth, height: videoHeight },
+      });
+      // A keyframe every second keeps long videos seekable
+      encoder.encode(frame, { keyFrame: i % Math.round(fps) === 0 });
+      frame.close();
+      onProgress(i + 1, steps.length);
+      while (encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+        await new Promise((resolve) => encoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+    }
+    await encoder.flush();
+    if (encodeError) throw encodeError;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  muxer.finalize();
+  return new Blob([muxer.target.buffer], { type: 'video/webm' });
+}
@@ -0,0 +1,4 @@
+/** Short unique id for user-created items such as presets, bookmarks and custom styles. */
+export const createId = () => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KEYMAP, applyKeymapOverrides, getKeymapOverrides, pruneKeymap, rebindCommand } from './keymap';
+
+describe('keymap overrides', () => {
+  it('stores nothing for the default keymap', () => {
+    expect(getKeymapOverrides(DEFAULT_KEYMAP)).toEqual({});
+  });
+
+  it('round-trips a rebinding', () => {
+    const keymap = rebindCommand(DEFAULT_KEYMAP, 'play-pause', 'K');
+    const overrides = getKeymapOverrides(keymap);
+    expect(overrides).toEqual({ Space: null, K: 'play-pause' });
+    expect(applyKeymapOverrides(overrides)).toEqual(keymap);
+  });
+
+  it('keeps default bindings missing from older stored keymaps', () => {
+    const { P: _, ...stored } = DEFAULT_KEYMAP;
+    expect(applyKeymapOverrides(stored).P).toBe('open-snapshot');
+  });
+});
+
+describe('pruneKeymap', () => {
+  it('drops bindings to unknown commands', () => {
+    expect(pruneKeymap({ K: 'play-pause', X: 'bookmark-gone' }, ['play-pause'])).toEqual({ K: 'play-pause' });
+  });
+});
@@ -0,0 +1,127 @@
+import { Keymap } from '../types';
+import { loadJson, saveJson } from './storage';
+
+export const KEYMAP_STORAGE_KEY = 'harmonic-oscillator.keymap';
+
+export const DEFAULT_KEYMAP: Keymap = {
+  'Space': 'play-pause',
+  'ArrowRight': 'step-forward',
+  'ArrowLeft': 'step-back',
+  'Shift+ArrowRight': 'seek-forward',
+  'Shift+ArrowLeft': 'seek-back',
+  'Home': 'reset',
+  '+': 'speed-up',
+  '=': 'speed-up',
+  '-': 'speed-down',
+  'R': 'reverse',
+  '1': 'palette-0',
+  '2': 'palette-1',
+  '3': 'palette-2',
+  '4': 'palette-3',
+  '5': 'palette-4',
+  'F': 'toggle-follow',
+  'T': 'cycle-tail',
+  'Shift+T': 'toggle-tail',
+  'W': 'toggle-wrap',
+  'V': 'cycle-view',
+  ']': 'next-alignment',
+  '[': 'previous-alignment',
+  'B': 'add-bookmark',
+  'S': 'toggle-sound',
+  'P': 'open-snapshot',
+  'Shift+F': 'toggle-fullscreen',
+  'Z': 'zoom-in',
+  'Shift+Z': 'zoom-out',
+  '0': 'reset-view',
+  'A': 'toggle-analysis',
+  'Ctrl+K': 'open-palette',
+  'Meta+K': 'open-palette',
+  '/': 'open-palette',
+  '?': 'open-help',
+};
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+/**
+ * Normalised name of a key press, e.g. "Ctrl+K", "Shift+ArrowLeft" or "?".
+ * Shift is left out for symbols, since it is already reflected in the key
+ * itself ("?" rather than "Shift+/").
+ */
+export const getKeyCombo = (e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'metaKey' | 'shiftKey'>) => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const isSymbol = e.key.length === 1 && e.key.toLowerCase() === e.key.toUpperCase() && e.key !== ' ';
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.metaKey) parts.push('Meta');
+  if (e.shiftKey && !isSymbol) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+/** Key combos bound to each command id, in keymap order. */
+export const getBindings = (keymap: Keymap) => {
+  const bindings: Record<string, string[]> = {};
+  Object.entries(keymap).forEach(([combo, commandId]) => {
+    (bindings[commandId] ??= []).push(combo);
+  });
+  return bindings;
+};
+
+/** Binds `combo` to `commandId` alone, replacing the command's previous keys. */
+export const rebindCommand = (keymap: Keymap, commandId: string, combo: string): Keymap => {
+  const next: Keymap = {};
+  Object.entries(keymap).forEach(([c, id]) => {
+    if (id !== commandId && c !== combo) next[c] = id;
+  });
+  next[combo] = commandId;
+  return next;
+};
+
+/** Drops bindings to commands that no longer exist, e.g. deleted bookmarks. */
+export const pruneKeymap = (keymap: Keymap, commandIds: Iterable<string>): Keymap => {
+  const known = new Set(commandIds);
+  return Object.fromEntries(Object.entries(keymap).filter(([, id]) => known.has(id)));
+};
+
+/**
+ * Stored form of a keymap: only the combos that differ from DEFAULT_KEYMAP,
+ * with null for a default combo the user unbound. Leaving the defaults out
+ * lets bindings added in later versions reach existing users.
+ */
+export type KeymapOverrides = Record<string, string | null>;
+
+export const getKeymapOverrides = (keymap: Keymap): KeymapOverrides => {
+  const overrides: KeymapOverrides = {};
+  Object.keys(DEFAULT_KEYMAP).forEach((combo) => {
+    if (!(combo in keymap)) overrides[combo] = null;
+  });
+  Object.entries(keymap).forEach(([combo, id]) => {
+    if (DEFAULT_KEYMAP[combo] !== id) overrides[combo] = id;
+  });
+  return overrides;
+};
+
+export const applyKeymapOverrides = (overrides: KeymapOverrides): Keymap => {
+  const keymap: Keymap = { ...DEFAULT_KEYMAP };
+  Object.entries(overrides).forEach(([combo, id]) => {
+    if (id === null) {
+      delete keymap[combo];
+    } else {
+      keymap[combo] = id;
+    }
+  });
+  return keymap;
+};
+
+const sanitizeKeymap = (data: unknown): Keymap => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return DEFAULT_KEYMAP;
+  const entries = Object.entries(data).filter(([, id]) => typeof id === 'string' || id === null);
+  return applyKeymapOverrides(Object.fromEntries(entries));
+};
+
+export const loadKeymap = () => loadJson(KEYMAP_STORAGE_KEY, 'keymap', sanitizeKeymap, DEFAULT_KEYMAP);
+
+export const saveKeymap = (keymap: Keymap) => saveJson(KEYMAP_STORAGE_KEY, 'keymap', getKeymapOverrides(keymap));
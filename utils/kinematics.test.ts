@@ -0,0 +1,295 @@
+import { describe, expect, it } from 'vitest';
+import { TAIL_STYLES } from '../constants';
+import { MotionSettings } from '../types';
+import {
+  ColumnLayout,
+  computeRowPositions,
+  computeRowTrack,
+  getActiveRowIndex,
+  getAnimatedTriggerCount,
+  getBackgroundX,
+  getBadgeX,
+  getColumnX,
+  getFocusX,
+  getFollowFocusX,
+  getLapOriginX,
+  getQuantizedWrapWidth,
+  getRowDisplacement,
+  getTriggerCount,
+  getWrapMarkers,
+  getWrapUnits,
+  isTriggerAt,
+} from './kinematics';
+
+const classic = TAIL_STYLES[0];
+const sinusoidal: MotionSettings = { model: 'sinusoidal', amplitude: 6 };
+const pendulum: MotionSettings = { model: 'pendulum', amplitude: 6 };
+const phase: MotionSettings = { model: 'phase', amplitude: 6 };
+
+const layout = (overrides: Partial<ColumnLayout> = {}): ColumnLayout => ({
+  itemSize: 10,
+  wrapWidth: 100,
+  wrapModulus: 0,
+  shouldWrap: false,
+  isFollowEnabled: false,
+  focusX: 0,
+  viewportWidth: 100,
+  ...overrides,
+});
+
+describe('getAnimatedTriggerCount', () => {
+  it('rests at zero for N = 0', () => {
+    expect(getAnimatedTriggerCount(0, 1)).toBe(0);
+    expect(getAnimatedTriggerCount(0, 7)).toBe(0);
+  });
+
+  it('is zero for non-positive movement values', () => {
+    expect(getAnimatedTriggerCount(5, 0)).toBe(0);
+    expect(getAnimatedTriggerCount(5, -2)).toBe(0);
+  });
+
+  it('holds still until the transition before a trigger', () => {
+    expect(getAnimatedTriggerCount(2.49, 2)).toBe(1);
+    expect(getAnimatedTriggerCount(3.5, 2)).toBe(1);
+  });
+
+  it('eases into the next trigger over the transition width', () => {
+    expect(getAnimatedTriggerCount(3.75, 2)).toBeCloseTo(1.5);
+    expect(getAnimatedTriggerCount(3.999999, 2)).toBeCloseTo(2, 4);
+    expect(getAnimatedTriggerCount(4, 2)).toBe(2);
+    expect(getAnimatedTriggerCount(4.000001, 2)).toBe(2);
+  });
+
+  it('applies a custom easing over a custom width', () => {
+    expect(getAnimatedTriggerCount(3.75, 2, { ease: (t) => t, width: 1 })).toBeCloseTo(1.75);
+    expect(getAnimatedTriggerCount(2.5, 2, { ease: (t) => t, width: 1 })).toBe(1);
+  });
+
+  it('caps the transition at the interval for short intervals', () => {
+    expect(getAnimatedTriggerCount(0, 0.25)).toBe(0);
+    expect(getAnimatedTriggerCount(0.125, 0.25)).toBeCloseTo(0.5);
+  });
+
+  it('stays exact for very large N', () => {
+    expect(getAnimatedTriggerCount(1e12, 7)).toBe(Math.floor(1e12 / 7));
+    expect(getTriggerCount(2 ** 52, 1)).toBe(2 ** 52);
+  });
+});
+
+describe('fractional movement values', () => {
+  it('counts exact multiples that floating point misses', () => {
+    expect(getTriggerCount(5, 5 / 3)).toBe(3);
+    expect(getTriggerCount(4, 4 / 3)).toBe(3);
+    expect(getTriggerCount(6, 1.2)).toBe(5);
+    expect(getTriggerCount(0.3, 0.1)).toBe(3);
+  });
+
+  it('still floors between triggers', () => {
+    expect(getTriggerCount(5.5, 5 / 3)).toBe(3);
+    expect(getTriggerCount(4.9, 5 / 3)).toBe(2);
+    expect(getTriggerCount(1e12 + 1, 1.5)).toBe(Math.floor((1e12 + 1) / 1.5));
+  });
+
+  it('detects divisibility for rational and decimal values', () => {
+    expect(isTriggerAt(6, 1.2)).toBe(true);
+    expect(isTriggerAt(4, 4 / 3)).toBe(true);
+    expect(isTriggerAt(5, 5 / 3)).toBe(true);
+    expect(isTriggerAt(5, 4 / 3)).toBe(false);
+    expect(isTriggerAt(7, 1.2)).toBe(false);
+    expect(isTriggerAt(0, 1.2)).toBe(false);
+    expect(isTriggerAt(6, 0)).toBe(false);
+  });
+
+  it('finds every trigger of the k/3 rows', () => {
+    const values = [1, 4 / 3, 5 / 3, 2, 7 / 3];
+    for (let N = 1; N <= 300; N++) {
+      values.forEach((v) => {
+        const k = Math.round((3 * N) / (3 * v));
+        expect(isTriggerAt(N, v)).toBe((3 * N) % Math.round(3 * v) === 0);
+        if (isTriggerAt(N, v)) expect(getTriggerCount(N, v)).toBe(k);
+      });
+    }
+  });
+
+  it('arrives at the next trigger without a jump', () => {
+    expect(getAnimatedTriggerCount(4 - 1e-12, 4 / 3)).toBeCloseTo(3);
+    expect(getAnimatedTriggerCount(4, 4 / 3)).toBe(3);
+  });
+
+  it('activates the row of a fractional divisor', () => {
+    expect(getActiveRowIndex(6, [1, 1.5, 1.2])).toBe(2);
+    expect(getActiveRowIndex(4, [1, 4 / 3, 5 / 3])).toBe(1);
+  });
+});
+
+describe('getRowDisplacement', () => {
+  it('steps discrete rows by their movement value per trigger', () => {
+    expect(getRowDisplacement(0, 3, 2)).toBe(0);
+    expect(getRowDisplacement(6, 3, 2)).toBe(6);
+    expect(getRowDisplacement(5.75, 3, 2)).toBeCloseTo(4.5);
+    expect(getRowDisplacement(1e9, 1, 0)).toBe(1e9);
+  });
+
+  it('swings sinusoidal rows between 0 and twice the amplitude', () => {
+    expect(getRowDisplacement(0, 4, 1, sinusoidal)).toBeCloseTo(6);
+    expect(getRowDisplacement(1, 4, 1, sinusoidal)).toBeCloseTo(12);
+    expect(getRowDisplacement(3, 4, 1, sinusoidal)).toBeCloseTo(0);
+    expect(getRowDisplacement(3, 0, 1, sinusoidal)).toBe(6);
+  });
+
+  it('starts pendulum rows together and realigns them every cycle', () => {
+    for (let row = 0; row < 5; row++) {
+      expect(getRowDisplacement(0, 1, row, pendulum)).toBeCloseTo(0);
+      expect(getRowDisplacement(120, 1, row, pendulum)).toBeCloseTo(0);
+    }
+    expect(getRowDisplacement(6, 1, 0, pendulum)).toBeCloseTo(12);
+  });
+
+  it('cycles phase rows through N mod v', () => {
+    expect(getRowDisplacement(0, 3, 2, phase)).toBe(0);
+    expect(getRowDisplacement(7, 3, 2, phase)).toBe(1);
+    expect(getRowDisplacement(9, 3, 2, phase)).toBe(0);
+    expect(getRowDisplacement(1e12 + 2, 3, 2, phase)).toBe((1e12 + 2) % 3);
+    expect(getRowDisplacement(7, 0, 2, phase)).toBe(0);
+  });
+});
+
+describe('getActiveRowIndex', () => {
+  const values = [1, 2, 3, 4, 5];
+
+  it('is idle at N = 0', () => {
+    expect(getActiveRowIndex(0, values)).toBe(-1);
+    expect(getActiveRowIndex(0.9, values)).toBe(-1);
+  });
+
+  it('picks the last row whose value divides N', () => {
+    expect(getActiveRowIndex(12, values)).toBe(3);
+    expect(getActiveRowIndex(12.9, values)).toBe(3);
+    expect(getActiveRowIndex(7, values)).toBe(0);
+  });
+
+  it('handles very large N', () => {
+    expect(getActiveRowIndex(1e12, values)).toBe(4);
+  });
+});
+
+describe('computeRowTrack', () => {
+  it('has no tail at N = 0', () => {
+    const { head, tail } = computeRowTrack({ currentStep: 0, movementValue: 1, tailStyle: classic });
+    expect(head).toBe(0);
+    expect(tail).toEqual([]);
+  });
+
+  it('trails discrete tails one trigger apart behind the head', () => {
+    const { head, tail } = computeRowTrack({ currentStep: 6, movementValue: 2, tailStyle: classic });
+    expect(head).toBe(6);
+    expect(tail.map((point) => point.displacement)).toEqual([4, 2, 0]);
+  });
+
+  it('keeps the tail on the head lap while wrapping', () => {
+    const { head, tail } = computeRowTrack({ currentStep: 13, movementValue: 1, tailStyle: classic, lapUnits: 10 });
+    expect(head).toBe(13);
+    expect(tail.map((point) => point.displacement)).toEqual([12, 11, 10]);
+  });
+
+  it('omits the tail when tails are off', () => {
+    expect(computeRowTrack({ currentStep: 50, movementValue: 1 }).tail).toEqual([]);
+  });
+
+  it('samples oscillating tails on the head lap only', () => {
+    const { tail } = computeRowTrack({ currentStep: 20, movementValue: 8, motion: sinusoidal, tailStyle: classic, lapUnits: 10 });
+    expect(tail.length).toBeGreaterThan(0);
+    tail.forEach((point) => expect(Math.floor(point.displacement / 10)).toBe(0));
+  });
+});
+
+describe('computeRowPositions', () => {
+  const base = {
+    movementValue: 1,
+    itemSize: 10,
+    wrapWidth: 100,
+    isTailEnabled: true,
+    tailStyle: classic,
+    viewportWidth: 100,
+  };
+
+  it('puts the head first and keeps a following leader centred', () => {
+    for (const currentStep of [0, 3, 1e6]) {
+      const positions = computeRowPositions({ ...base, currentStep, shouldWrap: false, isFollowEnabled: true, focusX: currentStep * 10 });
+      expect(positions[0].isHead).toBe(true);
+      expect(positions[0].x).toBeCloseTo(45);
+      positions.slice(1).forEach((pos) => expect(pos.isHead).toBe(false));
+    }
+  });
+
+  it('trails the tail one trigger apart behind the head', () => {
+    const positions = computeRowPositions({ ...base, movementValue: 2, currentStep: 6, shouldWrap: false, isFollowEnabled: false, focusX: 0 });
+    expect(positions.map((pos) => pos.x)).toEqual([105, 85, 65, 45]);
+  });
+
+  it('wraps the head onto the viewport when not following', () => {
+    const [head] = computeRowPositions({ ...base, currentStep: 23, shouldWrap: true, isFollowEnabled: false, focusX: 0 });
+    expect(head.x).toBe(30);
+  });
+
+  it('wraps by the modulus while following', () => {
+    const focusX = getFocusX(23 * 10, true, getQuantizedWrapWidth(100, 10, 4));
+    const [head] = computeRowPositions({ ...base, currentStep: 23, wrapModulus: 4, shouldWrap: true, isFollowEnabled: true, focusX });
+    expect(focusX).toBe(30);
+    expect(head.x).toBeCloseTo(45);
+  });
+});
+
+describe('wrap helpers', () => {
+  it('wraps at whole units of the viewport, never less than one', () => {
+    expect(getWrapUnits(105, 10)).toBe(10);
+    expect(getWrapUnits(5, 10)).toBe(1);
+    expect(getQuantizedWrapWidth(105, 10)).toBe(100);
+  });
+
+  it('prefers the modulus when one is set', () => {
+    expect(getWrapUnits(105, 10, 12)).toBe(12);
+    expect(getQuantizedWrapWidth(105, 10, 12)).toBe(120);
+  });
+
+  it('wraps displacements into the lap, including negative ones', () => {
+    expect(getColumnX(230, layout({ shouldWrap: true }))).toBe(30);
+    expect(getColumnX(-10, layout({ shouldWrap: true }))).toBe(90);
+    expect(getColumnX(1e12, layout({ shouldWrap: true, wrapModulus: 7 }))).toBe((1e11 % 7) * 10);
+  });
+
+  it('marks the lap boundaries that are on screen', () => {
+    expect(getWrapMarkers(layout())).toEqual([]);
+    expect(getWrapMarkers(layout({ shouldWrap: true, wrapModulus: 4 }))).toEqual([0, 40]);
+    expect(getWrapMarkers(layout({ shouldWrap: true, isFollowEnabled: true, focusX: 30, wrapModulus: 4 }))).toEqual([15, 55]);
+  });
+});
+
+describe('follow helpers', () => {
+  it('only moves the camera while following', () => {
+    expect(getFocusX(250, false)).toBe(0);
+    expect(getFocusX(250, true)).toBe(250);
+    expect(getFocusX(250, true, 100)).toBe(50);
+  });
+
+  it('starts the lap left of centre by the camera position', () => {
+    expect(getLapOriginX(layout())).toBe(0);
+    expect(getLapOriginX(layout({ isFollowEnabled: true, focusX: 20 }))).toBe(25);
+  });
+
+  it('finds the followed camera that shows a still view', () => {
+    expect(getFollowFocusX(layout({ isFollowEnabled: true, focusX: 70 }))).toBe(70);
+    expect(getFollowFocusX(layout())).toBe(0);
+    expect(getFollowFocusX(layout({ shouldWrap: true }))).toBe(45);
+  });
+
+  it('keeps the grid locked to the camera', () => {
+    expect(getBackgroundX(100, 0, 10, false)).toBe(0);
+    expect(getBackgroundX(100, 1e9 + 3, 10, true)).toBeCloseTo(2);
+  });
+
+  it('centres the badge on the leader column', () => {
+    expect(getBadgeX(30, layout({ isFollowEnabled: true, focusX: 30 }))).toBe(50);
+    expect(getBadgeX(230, layout({ shouldWrap: true }))).toBe(35);
+  });
+});
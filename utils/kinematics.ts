@@ -0,0 +1,399 @@
+import { FalloffType, MotionSettings, RowPosition, TailStyle } from '../types';
+import { Easing, smoothstep } from './easing';
+
+// Default span (in N units) spent easing into the next trigger
+export const TRANSITION_WIDTH = 0.5;
+
+export const DEFAULT_EASING: Easing = { ease: smoothstep, width: TRANSITION_WIDTH };
+
+// Horizontal tail jitter in 2D, in pixels per unit of TailStyle.jitter
+export const TAIL_JITTER_PX = 4;
+
+export const DEFAULT_MOTION: MotionSettings = { model: 'discrete', amplitude: 6 };
+
+// Pendulum wave: over PENDULUM_CYCLE N units row i completes
+// PENDULUM_BASE_SWINGS + i swings, so all rows line up again once per cycle
+const PENDULUM_CYCLE = 120;
+const PENDULUM_BASE_SWINGS = 10;
+
+// Spacing (in N units) between tail samples of the oscillating models
+const CONTINUOUS_TAIL_INTERVAL = 0.25;
+
+export interface TailSample {
+  k: number;
+  triggerIndex: number;
+  opacity: number;
+  scale: number;
+  jitter: number;
+  hueShift: number;
+}
+
+export interface RowKinematicsInput {
+  currentStep: number;
+  movementValue: number;
+  itemSize: number;
+  wrapWidth: number;
+  wrapModulus?: number; // Wrap period in columns; 0 wraps at the viewport width
+  shouldWrap: boolean;
+  isFollowEnabled: boolean;
+  isTailEnabled: boolean;
+  tailStyle: TailStyle;
+  focusX: number;
+  viewportWidth: number;
+  easing?: Easing;
+  rowIndex?: number;
+  motion?: MotionSettings;
+}
+
+export type ColumnLayout = Pick<RowKinematicsInput, 'itemSize' | 'wrapWidth' | 'wrapModulus' | 'shouldWrap' | 'isFollowEnabled' | 'focusX' | 'viewportWidth'>;
+
+// Rounding error allowed in N / v before a fractional movement value such as
+// 4/3 or 1.2 counts as dividing N: an absolute part near zero plus a few ulps
+// of the ratio
+const TRIGGER_TOLERANCE = 1e-9;
+const TRIGGER_TOLERANCE_ULPS = 8;
+
+/** N / v rounded to the nearest integer when it is one up to rounding error, else null. */
+const getWholeTriggerCount = (N: number, v: number) => {
+  const ratio = N / v;
+  const nearest = Math.round(ratio);
+  const tolerance = TRIGGER_TOLERANCE + TRIGGER_TOLERANCE_ULPS * Number.EPSILON * Math.abs(ratio);
+  return Math.abs(ratio - nearest) <= tolerance ? nearest : null;
+};
+
+/** Triggers of a row with movement value `v` from 0 up to and including N. */
+export const getTriggerCount = (N: number, v: number) => {
+  if (v <= 0) return 0;
+  return getWholeTriggerCount(N, v) ?? Math.floor(N / v);
+};
+
+/** Whether a row with movement value `v` triggers at N, i.e. v divides N. */
+export const isTriggerAt = (N: number, v: number) => {
+  return v > 0 && N !== 0 && getWholeTriggerCount(N, v) !== null;
+};
+
+/**
+ * Trigger count with the easing curve applied over the last `easing.width`
+ * of the interval leading up to the next trigger. The width is capped at
+ * the interval itself so short intervals still start from rest.
+ */
+export const getAnimatedTriggerCount = (N: number, v: number, easing: Easing = DEFAULT_EASING) => {
+  if (v <= 0) return 0;
+  const currentTriggerCount = getTriggerCount(N, v);
+  const nextTriggerAt = (currentTriggerCount + 1) * v;
+  const distToNext = nextTriggerAt - N;
+  const width = Math.min(easing.width, v);
+
+  if (distToNext < width) {
+    const t = 1 - (distToNext / width);
+    return currentTriggerCount + easing.ease(t);
+  }
+  return currentTriggerCount;
+};
+
+/**
+ * Index of the last row whose movement value divides floor(N):
+ * 0 is the leader, -1 means idle (N = 0).
+ */
+export const getActiveRowIndex = (currentStep: number, movementValues: number[]) => {
+  const N = Math.floor(currentStep);
+  if (N === 0) return -1;
+  for (let i = movementValues.length - 1; i >= 1; i--) {
+    if (isTriggerAt(N, movementValues[i])) return i;
+  }
+  return 0;
+};
+
+/**
+ * Columns per wrap lap: the modulus when one is set, otherwise the viewport
+ * width rounded down to whole units, never less than one unit.
+ */
+export const getWrapUnits = (wrapWidth: number, itemSize: number, wrapModulus = 0) => {
+  if (wrapModulus > 0) return wrapModulus;
+  return Math.max(Math.floor(wrapWidth / itemSize), 1);
+};
+
+export const getQuantizedWrapWidth = (wrapWidth: number, itemSize: number, wrapModulus = 0) => {
+  return getWrapUnits(wrapWidth, itemSize, wrapModulus) * itemSize;
+};
+
+const wrapOffset = (offset: number, period: number) => ((offset % period) + period) % period;
+
+/**
+ * Distance (in columns) of a row's head from column 0 under a motion model.
+ * Discrete rows step one movement value per trigger; the oscillating models
+ * swing between 0 and twice the amplitude; phase rows cycle through
+ * columns 0..v-1 as N mod v.
+ */
+export const getRowDisplacement = (
+  N: number,
+  v: number,
+  rowIndex: number,
+  motion: MotionSettings = DEFAULT_MOTION,
+  easing: Easing = DEFAULT_EASING
+) => {
+  switch (motion.model) {
+    case 'sinusoidal':
+      return v > 0 ? motion.amplitude * (1 + Math.sin((2 * Math.PI * N) / v)) : motion.amplitude;
+    case 'pendulum': {
+      const swings = PENDULUM_BASE_SWINGS + rowIndex;
+      return motion.amplitude * (1 - Math.cos((2 * Math.PI * N * swings) / PENDULUM_CYCLE));
+    }
+    case 'phase': {
+      if (v <= 0) return 0;
+      const steps = getAnimatedTriggerCount(N, 1, easing);
+      return ((steps % v) + v) % v;
+    }
+    default:
+      return getAnimatedTriggerCount(N, v, easing) * v;
+  }
+};
+
+export const getLeaderOffset = (
+  currentStep: number,
+  itemSize: number,
+  easing: Easing = DEFAULT_EASING,
+  motion: MotionSettings = DEFAULT_MOTION
+) => {
+  return getRowDisplacement(currentStep, 1, 0, motion, easing) * itemSize;
+};
+
+/**
+ * What the follow camera tracks: the leader while stepping, the resting
+ * centre of the swing for the oscillating models, and column 0 for phase
+ * rows, which never leave their first cycle.
+ */
+export const getCameraOffset = (
+  currentStep: number,
+  itemSize: number,
+  easing: Easing = DEFAULT_EASING,
+  motion: MotionSettings = DEFAULT_MOTION
+) => {
+  switch (motion.model) {
+    case 'sinusoidal':
+    case 'pendulum':
+      return motion.amplitude * itemSize;
+    case 'phase':
+      return 0;
+    default:
+      return getLeaderOffset(currentStep, itemSize, easing);
+  }
+};
+
+/** Camera position; while wrapping, the camera follows within the lap. */
+export const getFocusX = (cameraOffset: number, isFollowEnabled: boolean, wrapPeriod = 0) => {
+  if (!isFollowEnabled) return 0;
+  return wrapPeriod > 0 ? wrapOffset(cameraOffset, wrapPeriod) : cameraOffset;
+};
+
+/** Screen x where the wrapped lap starts: column 0 mod M. */
+export const getLapOriginX = (layout: ColumnLayout) => {
+  const { itemSize, isFollowEnabled, focusX, viewportWidth } = layout;
+  return isFollowEnabled ? (viewportWidth / 2) - (itemSize / 2) - focusX : 0;
+};
+
+/**
+ * Camera position that shows the same columns as `layout` with follow mode
+ * on, so manual panning picks up where a still camera left off.
+ */
+export const getFollowFocusX = (layout: ColumnLayout) => {
+  const { itemSize, shouldWrap, isFollowEnabled, focusX, viewportWidth } = layout;
+  if (isFollowEnabled || !shouldWrap) return focusX;
+  return (viewportWidth / 2) - (itemSize / 2);
+};
+
+/** Screen x of the block `displacement` pixels along a row from N = 0. */
+export const getColumnX = (displacement: number, layout: ColumnLayout) => {
+  const { itemSize, wrapWidth, wrapModulus, shouldWrap, focusX, viewportWidth } = layout;
+  if (shouldWrap) {
+    return getLapOriginX(layout) + wrapOffset(displacement, getQuantizedWrapWidth(wrapWidth, itemSize, wrapModulus));
+  }
+  return (displacement - focusX) + (viewportWidth / 2) - (itemSize / 2);
+};
+
+/** Screen x of the wrap boundaries on either side of the lap, when on screen. */
+export const getWrapMarkers = (layout: ColumnLayout) => {
+  const { itemSize, wrapWidth, wrapModulus, shouldWrap, viewportWidth } = layout;
+  if (!shouldWrap) return [];
+  const start = getLapOriginX(layout);
+  return [start, start + getQuantizedWrapWidth(wrapWidth, itemSize, wrapModulus)].filter((x) => x >= 0 && x <= viewportWidth);
+};
+
+/** Grid background shift that keeps the grid locked to the moving camera. */
+export const getBackgroundX = (
+  viewportWidth: number,
+  focusX: number,
+  itemSize: number,
+  isFollowEnabled: boolean
+) => {
+  if (!isFollowEnabled) return 0;
+  const rawOffset = (viewportWidth / 2) - focusX - (itemSize / 2);
+  return ((rawOffset % itemSize) + itemSize) % itemSize;
+};
+
+/** Centre of the leader's column, where the N badge sits. */
+export const getBadgeX = (leaderXOffset: number, layout: ColumnLayout) => {
+  return getColumnX(leaderXOffset, layout) + (layout.itemSize / 2);
+};
+
+// Multiplier applied along a tail at `progress` (0 at the head, 1 at the end)
+const FALLOFFS: Record<FalloffType, (progress: number, knee: number) => number> = {
+  none: () => 1,
+  linear: (progress) => Math.max(0, 1 - progress),
+  step: (progress, knee) => (progress < knee ? 1 : 0.2),
+  exponential: (progress, knee) => Math.exp(-progress / Math.max(knee, 0.01)),
+};
+
+export const getTailLength = (tailStyle: TailStyle, effectiveWrap: boolean) => {
+  return effectiveWrap && tailStyle.wrapLength ? tailStyle.wrapLength : tailStyle.length;
+};
+
+/** Largest number of tail samples a tail style can produce. */
+export const getMaxTailSamples = (tailStyle: TailStyle, effectiveWrap: boolean) => {
+  return Math.ceil(getTailLength(tailStyle, effectiveWrap) / tailStyle.stride);
+};
+
+/**
+ * Tail blocks behind a head at `animatedTriggerCount`, expressed in trigger
+ * units so each renderer can map them to its own space. Samples with a
+ * trigger index below `minTriggerIndex` are cut off (used by wrap mode to
+ * keep the tail on the current lap).
+ */
+export const computeTailSamples = (
+  currentStep: number,
+  animatedTriggerCount: number,
+  tailStyle: TailStyle,
+  effectiveWrap: boolean,
+  minTriggerIndex = 0
+): TailSample[] => {
+  const limit = getTailLength(tailStyle, effectiveWrap);
+  const { stride, falloffKnee } = tailStyle;
+  const samples: TailSample[] = [];
+
+  for (let k = 1; k <= limit; k += stride) {
+    const triggerIndex = animatedTriggerCount - k;
+    if (triggerIndex < 0 || triggerIndex < minTriggerIndex) break;
+
+    const progress = k / limit;
+    const opacity = tailStyle.opacity * FALLOFFS[tailStyle.opacityFalloff](progress, falloffKnee);
+    const scale = Math.max(tailStyle.minScale, tailStyle.scale * FALLOFFS[tailStyle.scaleFalloff](progress, falloffKnee));
+    const jitter = tailStyle.jitter ? tailStyle.jitter * Math.sin(k * 1.5 + currentStep * 5) : 0;
+
+    if (opacity > 0.01) {
+      samples.push({ k, triggerIndex, opacity, scale, jitter, hueShift: tailStyle.colorShift * progress });
+    }
+  }
+
+  return samples;
+};
+
+export interface RowTrackPoint extends TailSample {
+  displacement: number; // Columns from N = 0, like the head
+}
+
+export interface RowTrack {
+  head: number;
+  tail: RowTrackPoint[];
+}
+
+export interface RowTrackInput {
+  currentStep: number;
+  movementValue: number;
+  rowIndex?: number;
+  motion?: MotionSettings;
+  easing?: Easing;
+  tailStyle?: TailStyle; // Omitted when tails are off
+  lapUnits?: number; // Wrap lap in columns; the tail is kept on the head's lap
+}
+
+/**
+ * Head and tail of a row in columns, independent of any renderer. Discrete
+ * tails trail behind the head one trigger apart; the other models leave a
+ * trace of where the head was at earlier N.
+ */
+export const computeRowTrack = ({
+  currentStep,
+  movementValue,
+  rowIndex = 0,
+  motion = DEFAULT_MOTION,
+  easing = DEFAULT_EASING,
+  tailStyle,
+  lapUnits = 0,
+}: RowTrackInput): RowTrack => {
+  const head = getRowDisplacement(currentStep, movementValue, rowIndex, motion, easing);
+  if (!tailStyle) return { head, tail: [] };
+
+  const effectiveWrap = lapUnits > 0;
+  if (motion.model === 'discrete') {
+    const animatedTriggerCount = getAnimatedTriggerCount(currentStep, movementValue, easing);
+    const lapStartTriggerIndex = effectiveWrap
+      ? (Math.floor(head / lapUnits) * lapUnits) / movementValue
+      : 0;
+    const samples = computeTailSamples(currentStep, animatedTriggerCount, tailStyle, effectiveWrap, lapStartTriggerIndex);
+    return {
+      head,
+      tail: samples.map((sample) => ({ ...sample, displacement: sample.triggerIndex * movementValue })),
+    };
+  }
+
+  // Phase rows rest on whole columns, so one sample per step is enough
+  const interval = motion.model === 'phase' ? 1 : CONTINUOUS_TAIL_INTERVAL;
+  const headLap = effectiveWrap ? Math.floor(head / lapUnits) : 0;
+  const tail: RowTrackPoint[] = [];
+  for (const sample of computeTailSamples(currentStep, currentStep / interval, tailStyle, effectiveWrap)) {
+    const displacement = getRowDisplacement(sample.triggerIndex * interval, movementValue, rowIndex, motion, easing);
+    if (effectiveWrap && Math.floor(displacement / lapUnits) !== headLap) continue;
+    tail.push({ ...sample, displacement });
+  }
+  return { head, tail };
+};
+
+/**
+ * Screen positions of a row's head and tail blocks. The head is always the
+ * first entry; tail entries follow from newest to oldest.
+ */
+export const computeRowPositions = ({
+  currentStep,
+  movementValue,
+  itemSize,
+  wrapWidth,
+  wrapModulus = 0,
+  shouldWrap,
+  isFollowEnabled,
+  isTailEnabled,
+  tailStyle,
+  focusX,
+  viewportWidth,
+  easing = DEFAULT_EASING,
+  rowIndex = 0,
+  motion = DEFAULT_MOTION,
+}: RowKinematicsInput): RowPosition[] => {
+  const { head, tail } = computeRowTrack({
+    currentStep,
+    movementValue,
+    rowIndex,
+    motion,
+    easing,
+    tailStyle: isTailEnabled ? tailStyle : undefined,
+    lapUnits: shouldWrap ? getWrapUnits(wrapWidth, itemSize, wrapModulus) : 0,
+  });
+
+  const layout = { itemSize, wrapWidth, wrapModulus, shouldWrap, isFollowEnabled, focusX, viewportWidth };
+  const getRelativeX = (columns: number) => getColumnX(columns * itemSize, layout);
+
+  const positions: RowPosition[] = [
+    { x: getRelativeX(head), isHead: true, opacity: 1 },
+  ];
+
+  for (const sample of tail) {
+    positions.push({
+      x: getRelativeX(sample.displacement) + sample.jitter * TAIL_JITTER_PX,
+      isHead: false,
+      opacity: sample.opacity,
+      scale: sample.scale,
+      hueShift: sample.hueShift,
+    });
+  }
+
+  return positions;
+};
@@ -0,0 +1,73 @@
+export interface BlockMetrics {
+  slotHeight: number;
+  blockHeight: number;
+  verticalOffset: number;
+  fontSize: number;
+  horizontalPadding: number;
+  minWidth: number;
+  borderRadius: number;
+  headBorderWidth: number;
+}
+
+// Horizontal padding around each block's label chip (Tailwind `px-1`)
+export const BLOCK_GUTTER = 4;
+
+/** Dimensions of a row block derived from the slot height. */
+export const getBlockMetrics = (itemSize: number): BlockMetrics => {
+  const slotHeight = itemSize;
+  const blockHeight = slotHeight * 0.85;
+
+  return {
+    slotHeight,
+    blockHeight,
+    verticalOffset: (slotHeight - blockHeight) / 2,
+    fontSize: Math.max(blockHeight * 0.45, 6),
+    horizontalPadding: blockHeight * 0.3,
+    minWidth: blockHeight * 1.05,
+    borderRadius: blockHeight * 0.1,
+    headBorderWidth: Math.max(1, blockHeight * 0.05),
+  };
+};
+
+export interface RingLayout {
+  centerX: number;
+  centerY: number;
+  innerRadius: number; // Free space around the N badge
+  ringSpacing: number; // Distance between neighbouring rings, used as the slot size
+}
+
+// Gap kept between the outermost ring and the view edge
+const RING_MARGIN = 8;
+// Share of the radius left empty around the centre for the N badge
+const INNER_RING_FRACTION = 0.2;
+
+/** Concentric rings for `ringCount` rows centred in a `width` x `height` view. */
+export const getRingLayout = (width: number, height: number, ringCount: number): RingLayout => {
+  const outerRadius = Math.max(0, Math.min(width, height) / 2 - RING_MARGIN);
+  const innerRadius = outerRadius * INNER_RING_FRACTION;
+  return {
+    centerX: width / 2,
+    centerY: height / 2,
+    innerRadius,
+    ringSpacing: (outerRadius - innerRadius) / Math.max(1, ringCount),
+  };
+};
+
+/** Radius of the ring the `rowIndex`th row travels on; the leader is innermost. */
+export const getRingRadius = (rings: RingLayout, rowIndex: number) => {
+  return rings.innerRadius + (rowIndex + 0.5) * rings.ringSpacing;
+};
+
+/**
+ * Point `column` slots around the ring of a row with modulus
+ * `movementValue`. Slot 0 is at 12 o'clock and slots run clockwise, so rows
+ * whose modulus divides N line up as a spoke pointing straight up.
+ */
+export const getRingPoint = (rings: RingLayout, rowIndex: number, movementValue: number, column: number, radialOffset = 0) => {
+  const radius = getRingRadius(rings, rowIndex) + radialOffset;
+  const angle = movementValue > 0 ? (2 * Math.PI * column) / movementValue - Math.PI / 2 : -Math.PI / 2;
+  return {
+    x: rings.centerX + radius * Math.cos(angle),
+    y: rings.centerY + radius * Math.sin(angle),
+  };
+};
@@ -0,0 +1,6 @@
+export const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Clamps a value read from untrusted data, using `fallback` when it is not a finite number. */
+export const clampOr = (value: unknown, min: number, max: number, fallback: number) => {
+  return typeof value === 'number' && Number.isFinite(value) ? clamp(value, min, max) : fallback;
+};
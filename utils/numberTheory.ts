@@ -0,0 +1,187 @@
+// Primes used to build highly composite candidates; their product already
+// exceeds the safe integer range
+const SMALL_PRIMES = [2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41, 43, 47];
+
+let highlyCompositeCache: number[] | null = null;
+
+/**
+ * Every highly composite number (more divisors than any smaller positive
+ * integer) up to Number.MAX_SAFE_INTEGER, ascending. Candidates are products
+ * of consecutive primes with non-increasing exponents, which every highly
+ * composite number is.
+ */
+export const getHighlyCompositeNumbers = (): number[] => {
+  if (highlyCompositeCache) return highlyCompositeCache;
+
+  const candidates: { n: number; divisors: number }[] = [];
+  const visit = (primeIndex: number, n: number, divisors: number, maxExponent: number) => {
+    candidates.push({ n, divisors });
+    if (primeIndex >= SMALL_PRIMES.length) return;
+    const p = SMALL_PRIMES[primeIndex];
+    let value = n;
+    for (let e = 1; e <= maxExponent; e++) {
+      value *= p;
+      if (value > Number.MAX_SAFE_INTEGER) break;
+      visit(primeIndex + 1, value, divisors * (e + 1), e);
+    }
+  };
+  visit(0, 1, 1, 64);
+
+  candidates.sort((a, b) => a.n - b.n);
+  const result: number[] = [];
+  let record = 0;
+  for (const { n, divisors } of candidates) {
+    if (divisors > record) {
+      result.push(n);
+      record = divisors;
+    }
+  }
+  highlyCompositeCache = result;
+  return result;
+};
+
+/** First highly composite number strictly greater than N, or null past the table. */
+export const getNextHighlyComposite = (N: number) => {
+  return getHighlyCompositeNumbers().find((n) => n > N) ?? null;
+};
+
+/** Last highly composite number strictly less than N, or null below 1. */
+export const getPreviousHighlyComposite = (N: number) => {
+  const numbers = getHighlyCompositeNumbers();
+  for (let i = numbers.length - 1; i >= 0; i--) {
+    if (numbers[i] < N) return numbers[i];
+  }
+  return null;
+};
+
+/** Whether N is one of the highly composite numbers. */
+export const isHighlyComposite = (N: number) => {
+  return getHighlyCompositeNumbers().includes(N);
+};
+
+// Every perfect number in the safe integer range
+const PERFECT_NUMBERS = [6, 28, 496, 8128, 33550336, 8589869056, 137438691328];
+
+export const isPerfectNumber = (N: number) => PERFECT_NUMBERS.includes(N);
+
+export const isPerfectSquare = (N: number) => {
+  if (!Number.isInteger(N) || N < 0) return false;
+  const root = Math.round(Math.sqrt(N));
+  return root * root === N;
+};
+
+export interface PrimePower {
+  prime: number;
+  exponent: number;
+}
+
+// Factors below this bound are found by trial division, larger ones by
+// Pollard's rho, so factorizing stays fast across the safe integer range
+const TRIAL_DIVISION_LIMIT = 1000;
+
+// Miller-Rabin with these bases is exact below 3.3e24
+const MILLER_RABIN_BASES = [2n, 3n, 5n, 7n, 11n, 13n, 17n, 19n, 23n, 29n, 31n, 37n];
+
+const modPow = (base: bigint, exponent: bigint, modulus: bigint) => {
+  let result = 1n;
+  base %= modulus;
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+};
+
+const isPrimeBig = (n: bigint) => {
+  if (n < 2n) return false;
+  for (const p of MILLER_RABIN_BASES) {
+    if (n % p === 0n) return n === p;
+  }
+  let d = n - 1n;
+  let r = 0;
+  while ((d & 1n) === 0n) {
+    d >>= 1n;
+    r++;
+  }
+  witness: for (const a of MILLER_RABIN_BASES) {
+    let x = modPow(a, d, n);
+    if (x === 1n || x === n - 1n) continue;
+    for (let i = 1; i < r; i++) {
+      x = (x * x) % n;
+      if (x === n - 1n) continue witness;
+    }
+    return false;
+  }
+  return true;
+};
+
+const gcdBig = (a: bigint, b: bigint) => {
+  while (b) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+};
+
+// A non-trivial factor of the odd composite n
+const pollardRho = (n: bigint) => {
+  for (let c = 1n; ; c++) {
+    const f = (x: bigint) => (x * x + c) % n;
+    let x = 2n;
+    let y = 2n;
+    let d = 1n;
+    while (d === 1n) {
+      x = f(x);
+      y = f(f(y));
+      d = gcdBig(x > y ? x - y : y - x, n);
+    }
+    if (d !== n) return d;
+  }
+};
+
+export const isPrime = (N: number) => {
+  return Number.isSafeInteger(N) && isPrimeBig(BigInt(N));
+};
+
+/** Prime factorization of a positive safe integer, ascending; empty for 1. */
+export const factorize = (N: number): PrimePower[] => {
+  if (!Number.isSafeInteger(N) || N < 1) return [];
+  const counts = new Map<number, number>();
+  const add = (prime: number) => counts.set(prime, (counts.get(prime) ?? 0) + 1);
+
+  let rest = N;
+  for (let p = 2; p < TRIAL_DIVISION_LIMIT && p * p <= rest; p++) {
+    while (rest % p === 0) {
+      add(p);
+      rest /= p;
+    }
+  }
+
+  const pending = rest > 1 ? [BigInt(rest)] : [];
+  while (pending.length > 0) {
+    const n = pending.pop()!;
+    if (isPrimeBig(n)) {
+      add(Number(n));
+    } else {
+      const d = pollardRho(n);
+      pending.push(d, n / d);
+    }
+  }
+
+  return [...counts.entries()]
+    .map(([prime, exponent]) => ({ prime, exponent }))
+    .sort((a, b) => a.prime - b.prime);
+};
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+/** Factorization as text, e.g. "2³ × 3 × 5". */
+export const formatFactorization = (factors: PrimePower[]) => {
+  if (factors.length === 0) return '1';
+  return factors
+    .map(({ prime, exponent }) => {
+      const power = exponent > 1 ? [...String(exponent)].map((d) => SUPERSCRIPT_DIGITS[Number(d)]).join('') : '';
+      return `${prime}${power}`;
+    })
+    .join(' × ');
+};
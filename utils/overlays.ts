@@ -0,0 +1,132 @@
+import { LayoutMode, OverlaySettings } from '../types';
+import { getTriggeringRows } from './events';
+import { ColumnLayout, getColumnX, getLapOriginX, getWrapUnits } from './kinematics';
+import { BLOCK_GUTTER, getBlockMetrics } from './layout';
+import {
+  factorize,
+  formatFactorization,
+  isHighlyComposite,
+  isPerfectNumber,
+  isPerfectSquare,
+  isPrime,
+} from './numberTheory';
+
+export const DEFAULT_OVERLAYS: OverlaySettings = {
+  isFactorizationVisible: false,
+  isClassificationVisible: false,
+  isFormMarkerVisible: false,
+  isDivisorTintEnabled: false,
+  isRulerVisible: false,
+  rulerRow: 1,
+};
+
+export type OverlayToggle = Exclude<keyof OverlaySettings, 'rulerRow'>;
+
+export const OVERLAY_TOGGLES: { key: OverlayToggle; name: string }[] = [
+  { key: 'isFactorizationVisible', name: 'Factors' },
+  { key: 'isClassificationVisible', name: 'Prime' },
+  { key: 'isFormMarkerVisible', name: 'Perfect / Square' },
+  { key: 'isDivisorTintEnabled', name: 'Divisor Tint' },
+  { key: 'isRulerVisible', name: 'Ruler' },
+];
+
+// Label colour of a head whose movement value divides N (Tailwind amber-400)
+export const DIVISOR_TINT = '#fbbf24';
+
+// More ticks than this are not drawn; they would merge into a solid line
+const MAX_RULER_TICKS = 2000;
+
+export interface RulerTick {
+  n: number;
+  x: number; // Centre of the block column at N = n
+}
+
+export interface FrameOverlay {
+  badgeNotes: string[]; // Lines under the N badge
+  tintedRows: Set<number>;
+  rulerTicks: RulerTick[];
+  rulerColor: string;
+}
+
+export interface OverlayFrame extends ColumnLayout {
+  currentStep: number;
+  movementValues: number[];
+  rowColors: string[];
+  layoutMode?: LayoutMode; // The ruler runs along the top edge, so only horizontal lanes have one
+}
+
+// Renderers ask for the notes every frame while N only changes at integers
+let badgeNotesCache: { N: number; overlays: OverlaySettings; notes: string[] } | null = null;
+
+/** Text lines describing the integer N: its factorization, then its markers. */
+export const getBadgeNotes = (N: number, overlays: OverlaySettings) => {
+  if (badgeNotesCache && badgeNotesCache.N === N && badgeNotesCache.overlays === overlays) {
+    return badgeNotesCache.notes;
+  }
+  const notes: string[] = [];
+  badgeNotesCache = { N, overlays, notes };
+  if (N < 1 || !Number.isSafeInteger(N)) return notes;
+
+  if (overlays.isFactorizationVisible) notes.push(formatFactorization(factorize(N)));
+
+  const markers: string[] = [];
+  if (overlays.isClassificationVisible) {
+    if (N === 1) markers.push('unit');
+    else markers.push(isPrime(N) ? 'prime' : 'composite');
+    if (isHighlyComposite(N)) markers.push('highly composite');
+  }
+  if (overlays.isFormMarkerVisible) {
+    if (isPerfectNumber(N)) markers.push('perfect');
+    if (isPerfectSquare(N)) markers.push(`square of ${Math.round(Math.sqrt(N))}`);
+  }
+  if (markers.length > 0) notes.push(markers.join(' · '));
+  return notes;
+};
+
+/**
+ * Block columns at the multiples of `movementValue` that are on screen. In
+ * wrap mode these are the visible columns of the leader's current lap.
+ */
+export const getRulerTicks = (currentStep: number, movementValue: number, layout: ColumnLayout): RulerTick[] => {
+  const { itemSize, wrapWidth, wrapModulus, shouldWrap, focusX, viewportWidth } = layout;
+  if (!(movementValue > 0) || itemSize <= 0) return [];
+
+  let first: number;
+  let last: number;
+  if (shouldWrap) {
+    const lapUnits = getWrapUnits(wrapWidth, itemSize, wrapModulus);
+    const lapStart = Math.floor(Math.floor(currentStep) / lapUnits) * lapUnits;
+    const originX = getLapOriginX(layout);
+    first = lapStart + Math.max(0, Math.floor(-originX / itemSize));
+    last = Math.min(lapStart + lapUnits - 1, lapStart + Math.ceil((viewportWidth - originX) / itemSize));
+  } else {
+    const offset = (focusX - viewportWidth / 2) / itemSize;
+    first = Math.floor(offset);
+    last = Math.ceil(offset + viewportWidth / itemSize) + 1;
+  }
+
+  const { minWidth } = getBlockMetrics(itemSize);
+  const center = BLOCK_GUTTER + minWidth / 2;
+  const ticks: RulerTick[] = [];
+  for (let k = Math.max(1, Math.ceil(first / movementValue)); k * movementValue <= last; k++) {
+    if (ticks.length >= MAX_RULER_TICKS) break;
+    const n = k * movementValue;
+    ticks.push({ n, x: getColumnX(n * itemSize, layout) + center });
+  }
+  return ticks;
+};
+
+/** Everything the renderers draw for the enabled overlays at this frame. */
+export const buildFrameOverlay = (overlays: OverlaySettings, frame: OverlayFrame): FrameOverlay => {
+  const { currentStep, movementValues, rowColors, layoutMode = 'lanes' } = frame;
+  const N = Math.floor(currentStep);
+  // The chosen row may have been removed since; fall back to the last one
+  const rulerRow = Math.min(overlays.rulerRow, movementValues.length - 1);
+
+  return {
+    badgeNotes: getBadgeNotes(N, overlays),
+    tintedRows: new Set(overlays.isDivisorTintEnabled ? getTriggeringRows(N, movementValues) : []),
+    rulerTicks: overlays.isRulerVisible && layoutMode === 'lanes' && rulerRow >= 0 ? getRulerTicks(currentStep, movementValues[rulerRow], frame) : [],
+    rulerColor: rowColors[rulerRow] ?? DIVISOR_TINT,
+  };
+};
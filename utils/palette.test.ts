@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { LEADER_COLOR, isCssColor, sanitizePalette, toHexColor } from './palette';
+
+describe('isCssColor', () => {
+  it('accepts hex, rgb and hsl colours', () => {
+    ['#a0f', '#AA00ff', 'rgb(10, 20, 30)', 'rgba(10,20,30,0.5)', 'hsl(250, 70%, 60%)', 'hsla(-30deg,10%,5%,1)'].forEach((color) => {
+      expect(isCssColor(color)).toBe(true);
+    });
+  });
+
+  it('rejects anything else', () => {
+    ['', 'red', '#ggg', 'url(x)', 'rgb(1,2)', 'hsl(1,2,3)', '#abcd; background: red'].forEach((color) => {
+      expect(isCssColor(color)).toBe(false);
+    });
+  });
+});
+
+describe('sanitizePalette', () => {
+  it('falls back on invalid colours', () => {
+    const palette = sanitizePalette({ name: 'Test', leaderColor: 'javascript:x', colors: ['#ff0000', 'nope', 'rgb(0,0,255)'] });
+    expect(palette?.leaderColor).toBe(LEADER_COLOR);
+    expect(palette?.colors).toEqual(['#ff0000', 'rgb(0,0,255)']);
+  });
+});
+
+describe('toHexColor', () => {
+  it('converts every accepted form', () => {
+    expect(toHexColor('#A0F')).toBe('#aa00ff');
+    expect(toHexColor('rgb(255, 0, 100%)')).toBe('#ff00ff');
+    expect(toHexColor('hsl(0, 100%, 50%)')).toBe('#ff0000');
+  });
+});
@@ -0,0 +1,155 @@
+import { HueFunction, PaletteDefinition } from '../types';
+import { HUE_FUNCTIONS, LEADER_COLOR, PALETTES } from '../constants';
+import { clamp, clampOr } from './math';
+import { createId } from './ids';
+import { loadJson, sanitizeList, saveJson } from './storage';
+
+export { LEADER_COLOR };
+
+export const PALETTE_STORAGE_KEY = 'harmonic-oscillator.palettes';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const HSL_COLOR = /^hsla?\(\s*(-?[\d.]+)(?:deg)?\s*,\s*([\d.]+)%\s*,\s*([\d.]+)%/i;
+
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && HEX_COLOR.test(value);
+
+// Colour forms accepted in stored palettes: hex, rgb() and hsl()
+const CSS_COLORS = [
+  /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i,
+  /^rgba?\(\s*[\d.]+%?\s*,\s*[\d.]+%?\s*,\s*[\d.]+%?\s*(?:,\s*[\d.]+%?\s*)?\)$/i,
+  /^hsla?\(\s*-?[\d.]+(?:deg)?\s*,\s*[\d.]+%\s*,\s*[\d.]+%\s*(?:,\s*[\d.]+%?\s*)?\)$/i,
+];
+
+export const isCssColor = (value: unknown): value is string => {
+  return typeof value === 'string' && CSS_COLORS.some((pattern) => pattern.test(value));
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/** Converts `#rrggbb` to an `hsl(...)` string so tails can rotate its hue. */
+export const hexToHsl = (hex: string) => {
+  const r = parseInt(hex.slice(1, 3), 16) / 255;
+  const g = parseInt(hex.slice(3, 5), 16) / 255;
+  const b = parseInt(hex.slice(5, 7), 16) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  let h = 0;
+  let s = 0;
+
+  if (d !== 0) {
+    s = d / (1 - Math.abs(2 * l - 1));
+    if (max === r) h = ((g - b) / d) % 6;
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+    h = (h * 60 + 360) % 360;
+  }
+  return `hsl(${round1(h)}, ${round1(s * 100)}%, ${round1(l * 100)}%)`;
+};
+
+const toHsl = (color: string) => (HSL_COLOR.test(color) ? color : hexToHsl(toHexColor(color)));
+
+const toHexChannel = (value: string) => {
+  const channel = value.endsWith('%') ? parseFloat(value) * 2.55 : parseFloat(value);
+  return Math.round(clamp(channel, 0, 255)).toString(16).padStart(2, '0');
+};
+
+/** Converts a hex, `rgb(...)` or `hsl(...)` colour to `#rrggbb`, as colour inputs require. */
+export const toHexColor = (color: string) => {
+  if (isHexColor(color)) return color.toLowerCase();
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(color);
+  if (short) return `#${short.slice(1).map((c) => c + c).join('')}`.toLowerCase();
+  const rgb = /^rgba?\(\s*([\d.]+%?)\s*,\s*([\d.]+%?)\s*,\s*([\d.]+%?)/i.exec(color);
+  if (rgb) return `#${rgb.slice(1).map(toHexChannel).join('')}`;
+  const match = HSL_COLOR.exec(color);
+  if (!match) return '#ffffff';
+  const h = ((parseFloat(match[1]) % 360) + 360) % 360;
+  const s = Math.min(100, parseFloat(match[2])) / 100;
+  const l = Math.min(100, parseFloat(match[3])) / 100;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+// Base hue offset of a follower row, before the palette's start and range apply
+const HUE_OFFSETS: Record<HueFunction, (rowIndex: number, movementValue: number) => number> = {
+  golden: (_, movementValue) => (movementValue * 137.5) % 360,
+  row: (rowIndex) => (rowIndex * 137.5) % 360,
+  value: (_, movementValue) => (movementValue * 15) % 360,
+};
+
+/** CSS colour of a row for the given palette; the leader keeps its own colour. */
+export const getRowColor = (rowIndex: number, movementValue: number, palette: PaletteDefinition) => {
+  if (rowIndex === 0) return toHsl(palette.leaderColor);
+  if (palette.colors && palette.colors.length > 0) {
+    return toHsl(palette.colors[(rowIndex - 1) % palette.colors.length]);
+  }
+
+  const hueOffset = HUE_OFFSETS[palette.hueFunction](rowIndex, movementValue);
+  const hue = palette.hueRange > 0 ? (hueOffset % palette.hueRange) + palette.hueStart : palette.hueStart;
+  const lightness = palette.lightnessRange > 0 ? palette.lightness + (hueOffset % palette.lightnessRange) : palette.lightness;
+  return `hsl(${hue}, ${palette.saturation}%, ${lightness}%)`;
+};
+
+/** Colour of every row, with per-row overrides (hex) taking precedence. */
+export const getRowColors = (
+  movementValues: number[],
+  palette: PaletteDefinition,
+  rowColors: Record<number, string>
+) => {
+  return movementValues.map((v, rowIndex) => {
+    const override = rowColors[rowIndex];
+    return override ? toHsl(override) : getRowColor(rowIndex, v, palette);
+  });
+};
+
+/** Rotates the hue of an `hsl(...)` colour; other colour formats are returned unchanged. */
+export const shiftHue = (color: string, degrees: number) => {
+  if (!degrees) return color;
+  const match = /^hsl\(\s*(-?[\d.]+)\s*,(.*)\)$/.exec(color);
+  if (!match) return color;
+  const hue = (((parseFloat(match[1]) + degrees) % 360) + 360) % 360;
+  return `hsl(${hue},${match[2]})`;
+};
+
+export const createPaletteId = () => `custom-${createId()}`;
+
+/** Validates a stored custom palette; missing fields come from the harmonic palette. */
+export const sanitizePalette = (raw: unknown): PaletteDefinition | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const palette = raw as Record<string, unknown>;
+  const name = typeof palette.name === 'string' ? palette.name.trim() : '';
+  if (!name) return null;
+  const base = PALETTES[0];
+  const colors = Array.isArray(palette.colors) ? palette.colors.filter(isCssColor) : [];
+
+  return {
+    id: typeof palette.id === 'string' && palette.id ? palette.id : createPaletteId(),
+    name,
+    hueFunction: HUE_FUNCTIONS.some((f) => f.id === palette.hueFunction) ? (palette.hueFunction as HueFunction) : base.hueFunction,
+    hueStart: clampOr(palette.hueStart, 0, 360, base.hueStart),
+    hueRange: clampOr(palette.hueRange, 0, 360, base.hueRange),
+    saturation: clampOr(palette.saturation, 0, 100, base.saturation),
+    lightness: clampOr(palette.lightness, 0, 100, base.lightness),
+    lightnessRange: clampOr(palette.lightnessRange, 0, 100, base.lightnessRange),
+    ...(colors.length > 0 ? { colors } : {}),
+    leaderColor: isCssColor(palette.leaderColor) ? palette.leaderColor : base.leaderColor,
+    isCustom: true,
+  };
+};
+
+/** Palette for an id, falling back to the harmonic palette for unknown ids. */
+export const resolvePalette = (id: string, customPalettes: PaletteDefinition[]): PaletteDefinition => {
+  return PALETTES.find((p) => p.id === id)
+    ?? customPalettes.find((p) => p.id === id)
+    ?? PALETTES[0];
+};
+
+export const loadCustomPalettes = () => loadJson(PALETTE_STORAGE_KEY, 'custom palettes', sanitizeList(sanitizePalette), []);
+
+export const saveCustomPalettes = (palettes: PaletteDefinition[]) => saveJson(PALETTE_STORAGE_KEY, 'custom palettes', palettes);
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, MAX_BPM, MAX_RATIONAL_DENOMINATOR, MAX_TRANSITION_WIDTH } from '../constants';
+import { OscillatorConfig } from '../types';
+import { getMaxRowCount } from './config';
+import { parseConfig, serializeConfig } from './permalink';
+
+const CUSTOM_CONFIG: OscillatorConfig = {
+  ...DEFAULT_CONFIG,
+  currentStep: 42.5,
+  rowCount: 24,
+  speedMultiplier: -0.25,
+  colorPalette: 'okabe-ito',
+  tailType: 'comet',
+  isFollowEnabled: false,
+  isTailEnabled: false,
+  shouldWrap: false,
+  viewMode: 'canvas',
+  sequenceSource: 'custom',
+  customSequence: '2, 3, 5, 7',
+  rationalDenominator: 3,
+  easingType: 'bezier',
+  bezierCurve: [0.1, 0.2, 0.3, 0.9],
+  transitionWidth: 0.75,
+  rowTransitionWidths: { 2: 0.25, 5: 1 },
+  rowColors: { 0: '#ff0000', 4: '#00ff00' },
+  motionModel: 'pendulum',
+  motionAmplitude: 3,
+  layoutMode: 'polar',
+  wrapModulus: 12,
+};
+
+describe('permalink', () => {
+  it('round-trips the default configuration', () => {
+    expect(parseConfig(serializeConfig(DEFAULT_CONFIG))).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('round-trips every field of a non-default configuration', () => {
+    expect(parseConfig(serializeConfig(CUSTOM_CONFIG))).toEqual(CUSTOM_CONFIG);
+  });
+
+  it('leaves N out in the clock-driven sync modes', () => {
+    const config = { ...CUSTOM_CONFIG, syncMode: 'bpm' as const, bpm: 90 };
+    expect(new URLSearchParams(serializeConfig(config)).has('n')).toBe(false);
+    expect(parseConfig(serializeConfig(config))).toEqual({ ...config, currentStep: DEFAULT_CONFIG.currentStep });
+  });
+
+  it('falls back to the defaults for bad values', () => {
+    const config = parseConfig('?n=abc&rows=&sync=warp&follow=maybe&view=4d&ease=bouncy&bez=1,x,2&rc=0:red,1:00ff0&rtw=a:1,2:x');
+    expect(config).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('clamps out-of-range values', () => {
+    const config = parseConfig('?n=-5&rows=100000&bpm=99999&den=0&speed=0&mod=-3&tw=50');
+    expect(config.currentStep).toBe(0);
+    expect(config.rowCount).toBe(getMaxRowCount(DEFAULT_CONFIG.viewMode));
+    expect(config.bpm).toBe(MAX_BPM);
+    expect(config.rationalDenominator).toBe(1);
+    expect(config.speedMultiplier).toBe(DEFAULT_CONFIG.speedMultiplier);
+    expect(config.wrapModulus).toBe(0);
+    expect(config.transitionWidth).toBe(MAX_TRANSITION_WIDTH);
+    expect(parseConfig(`?den=${MAX_RATIONAL_DENOMINATOR * 2}`).rationalDenominator).toBe(MAX_RATIONAL_DENOMINATOR);
+  });
+
+  it('falls back per field to the given configuration', () => {
+    expect(parseConfig('?rows=6&seq=nope', CUSTOM_CONFIG)).toEqual({ ...CUSTOM_CONFIG, rowCount: 6 });
+  });
+});
@@ -0,0 +1,148 @@
+import { OscillatorConfig } from '../types';
+import { RawConfig, sanitizeConfig } from './config';
+
+// Query parameter used for each configuration field
+const PARAMS: Record<keyof OscillatorConfig, string> = {
+  currentStep: 'n',
+  rowCount: 'rows',
+  speedMultiplier: 'speed',
+  syncMode: 'sync',
+  bpm: 'bpm',
+  stepsPerSecond: 'sps',
+  syncEpoch: 'epoch',
+  colorPalette: 'palette',
+  tailType: 'tail',
+  isFollowEnabled: 'follow',
+  isTailEnabled: 'trail',
+  shouldWrap: 'wrap',
+  viewMode: 'view',
+  sequenceSource: 'seq',
+  customSequence: 'list',
+  rationalDenominator: 'den',
+  easingType: 'ease',
+  bezierCurve: 'bez',
+  transitionWidth: 'tw',
+  rowTransitionWidths: 'rtw',
+  rowColors: 'rc',
+  motionModel: 'motion',
+  motionAmplitude: 'amp',
+  layoutMode: 'layout',
+  wrapModulus: 'mod',
+};
+
+const NUMBER_FIELDS: (keyof OscillatorConfig)[] = [
+  'currentStep',
+  'rowCount',
+  'speedMultiplier',
+  'bpm',
+  'stepsPerSecond',
+  'syncEpoch',
+  'rationalDenominator',
+  'transitionWidth',
+  'motionAmplitude',
+  'wrapModulus',
+];
+const BOOLEAN_FIELDS: (keyof OscillatorConfig)[] = ['isFollowEnabled', 'isTailEnabled', 'shouldWrap'];
+
+const decodeNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const decodeBoolean = (value: string) => {
+  if (value === '1' || value === 'true') return true;
+  if (value === '0' || value === 'false') return false;
+  return undefined;
+};
+
+type FieldCodecs = {
+  [K in keyof OscillatorConfig]?: { encode: (value: OscillatorConfig[K]) => string; decode: (value: string) => unknown };
+};
+
+// Fields that are not plain scalars get their own compact text form
+const CODECS: FieldCodecs = {
+  // "x1,y1,x2,y2"
+  bezierCurve: {
+    encode: (curve) => curve.join(','),
+    decode: (value) => value.split(',').map(decodeNumber),
+  },
+  // "row:width" pairs, e.g. "3:0.2,5:1"
+  rowTransitionWidths: {
+    encode: (widths) => Object.entries(widths).map(([row, width]) => `${row}:${width}`).join(','),
+    decode: (value) => Object.fromEntries(
+      value.split(',').filter(Boolean).map((pair) => {
+        const [row, width] = pair.split(':');
+        return [row, decodeNumber(width ?? '')];
+      })
+    ),
+  },
+  // "row:rrggbb" pairs without the '#', e.g. "0:ff0000,4:00ff00"
+  rowColors: {
+    encode: (colors) => Object.entries(colors).map(([row, color]) => `${row}:${color.slice(1)}`).join(','),
+    decode: (value) => Object.fromEntries(
+      value.split(',').filter(Boolean).map((pair) => {
+        const [row, color] = pair.split(':');
+        return [row, `#${color ?? ''}`];
+      })
+    ),
+  },
+};
+
+const encodeField = <K extends keyof OscillatorConfig>(key: K, value: OscillatorConfig[K]) => {
+  const codec = CODECS[key];
+  if (codec) return codec.encode(value);
+  return typeof value === 'boolean' ? (value ? '1' : '0') : String(value);
+};
+
+/**
+ * Encodes a configuration as a query string. N is omitted in the clock-driven
+ * sync modes, where it is derived from the current time.
+ */
+export const serializeConfig = (config: OscillatorConfig) => {
+  const params = new URLSearchParams();
+  (Object.keys(PARAMS) as (keyof OscillatorConfig)[]).forEach((key) => {
+    if (key === 'currentStep' && config.syncMode !== 'manual') return;
+    params.set(PARAMS[key], encodeField(key, config[key]));
+  });
+  return params.toString();
+};
+
+/** Builds a configuration from fields in their permalink text form, falling back per field on bad values. */
+export const decodeConfig = (
+  values: Partial<Record<keyof OscillatorConfig, string | undefined>>,
+  fallback?: OscillatorConfig
+): OscillatorConfig => {
+  const raw: RawConfig = {};
+
+  (Object.keys(values) as (keyof OscillatorConfig)[]).forEach((key) => {
+    const value = values[key];
+    if (value === undefined || !(key in PARAMS)) return;
+    const codec = CODECS[key];
+    if (codec) {
+      raw[key] = codec.decode(value);
+    } else if (NUMBER_FIELDS.includes(key)) {
+      raw[key] = decodeNumber(value);
+    } else if (BOOLEAN_FIELDS.includes(key)) {
+      raw[key] = decodeBoolean(value);
+    } else {
+      raw[key] = value;
+    }
+  });
+
+  return sanitizeConfig(raw, fallback);
+};
+
+/** Reads a configuration from a query string, falling back per field on bad values. */
+export const parseConfig = (search: string, fallback?: OscillatorConfig): OscillatorConfig => {
+  const params = new URLSearchParams(search);
+  const values: Partial<Record<keyof OscillatorConfig, string>> = {};
+  (Object.keys(PARAMS) as (keyof OscillatorConfig)[]).forEach((key) => {
+    const value = params.get(PARAMS[key]);
+    if (value !== null) values[key] = value;
+  });
+  return decodeConfig(values, fallback);
+};
+
+export const buildPermalink = (config: OscillatorConfig, href: string = window.location.href) => {
+  const url = new URL(href);
+  url.search = serializeConfig(config);
+  url.hash = '';
+  return url.toString();
+};
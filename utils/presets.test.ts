@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from '../constants';
+import { Preset } from '../types';
+import { PRESET_SCHEMA_VERSION, PresetImportError, parsePresetFile, serializePresetFile } from './presets';
+
+const preset: Preset = {
+  id: 'abc',
+  name: 'Primes',
+  config: { ...DEFAULT_CONFIG, sequenceSource: 'primes', rowCount: 8 },
+  createdAt: 1700000000000,
+};
+
+const file = (data: object) => JSON.stringify({ version: PRESET_SCHEMA_VERSION, ...data });
+
+describe('parsePresetFile', () => {
+  it('reads back a serialized file', () => {
+    expect(parsePresetFile(serializePresetFile([preset]))).toEqual([preset]);
+  });
+
+  it('fills config fields missing from older files with defaults', () => {
+    const [parsed] = parsePresetFile(file({ presets: [{ ...preset, config: { rowCount: 4 } }] }));
+    expect(parsed.config).toEqual({ ...DEFAULT_CONFIG, rowCount: 4 });
+  });
+
+  it('refuses versions it cannot migrate', () => {
+    expect(() => parsePresetFile(JSON.stringify({ version: 0, presets: [] }))).toThrow('Cannot upgrade presets from version 0');
+    expect(() => parsePresetFile(file({ version: PRESET_SCHEMA_VERSION + 1, presets: [] }))).toThrow(/newer than this app supports/);
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => parsePresetFile('{"version": 1,')).toThrow(PresetImportError);
+    expect(() => parsePresetFile('{"version": 1,')).toThrow('File is not valid JSON');
+    expect(() => parsePresetFile('[]')).toThrow('File is not a preset export');
+    expect(() => parsePresetFile(JSON.stringify({ presets: [] }))).toThrow('File is not a preset export');
+    expect(() => parsePresetFile(file({ presets: {} }))).toThrow('File is not a preset export');
+  });
+
+  it('keeps the valid presets of a partially valid file', () => {
+    const presets = parsePresetFile(file({
+      presets: [
+        preset,
+        { name: '  ', config: {} },
+        { name: 'No config' },
+        'not a preset',
+        { name: ' Bad values ', config: { rowCount: -3, currentStep: 'x' } },
+      ],
+    }));
+    expect(presets.map((p) => p.name)).toEqual(['Primes', 'Bad values']);
+    expect(presets[1].id).toEqual(expect.any(String));
+    expect(presets[1].config.rowCount).toBe(1);
+    expect(presets[1].config.currentStep).toBe(DEFAULT_CONFIG.currentStep);
+  });
+});
@@ -0,0 +1,76 @@
+import { Preset, PresetFile } from '../types';
+import { RawConfig, sanitizeConfig } from './config';
+import { createId } from './ids';
+import { loadJson, saveJson } from './storage';
+
+export const PRESET_STORAGE_KEY = 'harmonic-oscillator.presets';
+export const PRESET_SCHEMA_VERSION = 1;
+
+export class PresetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetImportError';
+  }
+}
+
+/**
+ * Upgrades applied to a file's raw preset list, keyed by the version they
+ * upgrade from. Add an entry here whenever PRESET_SCHEMA_VERSION is bumped.
+ */
+const MIGRATIONS: Record<number, (presets: unknown[]) => unknown[]> = {};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/** Validates a single stored preset; config fields missing from older files get defaults. */
+const sanitizePreset = (raw: unknown): Preset | null => {
+  if (!isRecord(raw) || !isRecord(raw.config)) return null;
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) return null;
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createId(),
+    name,
+    config: sanitizeConfig(raw.config as RawConfig),
+    createdAt: typeof raw.createdAt === 'number' && Number.isFinite(raw.createdAt) ? raw.createdAt : Date.now(),
+  };
+};
+
+/** Validates parsed preset file data, running migrations up to the current schema version. */
+const sanitizePresetFile = (data: unknown): Preset[] => {
+  if (!isRecord(data) || typeof data.version !== 'number' || !Array.isArray(data.presets)) {
+    throw new PresetImportError('File is not a preset export');
+  }
+  if (data.version > PRESET_SCHEMA_VERSION) {
+    throw new PresetImportError(`Preset version ${data.version} is newer than this app supports`);
+  }
+
+  let presets: unknown[] = data.presets;
+  for (let version = data.version; version < PRESET_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new PresetImportError(`Cannot upgrade presets from version ${version}`);
+    presets = migrate(presets);
+  }
+
+  return presets.map(sanitizePreset).filter((preset): preset is Preset => preset !== null);
+};
+
+/** Parses a preset file, running migrations up to the current schema version. */
+export const parsePresetFile = (json: string): Preset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new PresetImportError('File is not valid JSON');
+  }
+  return sanitizePresetFile(data);
+};
+
+const toPresetFile = (presets: Preset[]): PresetFile => ({ version: PRESET_SCHEMA_VERSION, presets });
+
+export const serializePresetFile = (presets: Preset[]) => JSON.stringify(toPresetFile(presets), null, 2);
+
+export const loadPresets = () => loadJson(PRESET_STORAGE_KEY, 'presets', sanitizePresetFile, []);
+
+export const savePresets = (presets: Preset[]) => saveJson(PRESET_STORAGE_KEY, 'presets', toPresetFile(presets));
@@ -0,0 +1,119 @@
+import { SequenceSource } from '../types';
+
+export interface ParsedSequence {
+  values: number[];
+  invalidTokens: string[];
+}
+
+// Movement value of the leader row, which the follow camera tracks
+export const LEADER_MOVEMENT_VALUE = 1;
+
+const FRACTION_PATTERN = /^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/;
+const DECIMAL_PATTERN = /^\d*\.?\d+$/;
+
+const generatePrimes = (count: number) => {
+  const primes: number[] = [];
+  for (let candidate = 2; primes.length < count; candidate++) {
+    let isPrime = true;
+    for (const p of primes) {
+      if (p * p > candidate) break;
+      if (candidate % p === 0) {
+        isPrime = false;
+        break;
+      }
+    }
+    if (isPrime) primes.push(candidate);
+  }
+  return primes;
+};
+
+/** Fibonacci numbers from 2 onwards, so no value repeats the leader. */
+const generateFibonacci = (count: number) => {
+  const values: number[] = [];
+  let [a, b] = [1, 2];
+  while (values.length < count && b <= Number.MAX_SAFE_INTEGER) {
+    values.push(b);
+    [a, b] = [b, a + b];
+  }
+  return values;
+};
+
+const generatePowersOfTwo = (count: number) => {
+  const values: number[] = [];
+  for (let exponent = 1; values.length < count && 2 ** exponent <= Number.MAX_SAFE_INTEGER; exponent++) {
+    values.push(2 ** exponent);
+  }
+  return values;
+};
+
+/** Steps of 1/denominator above the leader: (d + 1)/d, (d + 2)/d, ... */
+const generateRationals = (count: number, denominator: number) => {
+  return Array.from({ length: count }, (_, i) => (denominator + i + 1) / denominator);
+};
+
+/**
+ * Parses a comma- or space-separated list of positive integers, decimals
+ * and fractions such as `3/2`. Tokens that are not positive numbers are
+ * reported instead of being silently dropped.
+ */
+export const parseCustomSequence = (input: string): ParsedSequence => {
+  const values: number[] = [];
+  const invalidTokens: string[] = [];
+
+  input.split(/[,\s]+/).filter(Boolean).forEach((token) => {
+    const fraction = token.match(FRACTION_PATTERN);
+    const value = fraction
+      ? parseFloat(fraction[1]) / parseFloat(fraction[2])
+      : DECIMAL_PATTERN.test(token) ? parseFloat(token) : NaN;
+
+    if (Number.isFinite(value) && value > 0) {
+      values.push(value);
+    } else {
+      invalidTokens.push(token);
+    }
+  });
+
+  return { values, invalidTokens };
+};
+
+/**
+ * Movement values for the leader followed by up to `rowCount` follower rows.
+ * Sequences that run out (a short custom list, powers beyond the safe integer
+ * range) yield fewer rows.
+ */
+export const getMovementValues = (
+  source: SequenceSource,
+  rowCount: number,
+  customSequence: string,
+  rationalDenominator: number
+): number[] => {
+  let followers: number[];
+
+  switch (source) {
+    case 'primes':
+      followers = generatePrimes(rowCount);
+      break;
+    case 'fibonacci':
+      followers = generateFibonacci(rowCount);
+      break;
+    case 'powers':
+      followers = generatePowersOfTwo(rowCount);
+      break;
+    case 'rational':
+      followers = generateRationals(rowCount, rationalDenominator);
+      break;
+    case 'custom':
+      followers = parseCustomSequence(customSequence).values.slice(0, rowCount);
+      break;
+    case 'consecutive':
+    default:
+      followers = Array.from({ length: rowCount }, (_, i) => i + 2);
+  }
+
+  return [LEADER_MOVEMENT_VALUE, ...followers];
+};
+
+/** Row label for a movement value, trimming floating point noise from decimals. */
+export const formatMovementValue = (value: number) => {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(3)));
+};
@@ -0,0 +1,217 @@
+import { SnapshotOptions } from '../types';
+import {
+  BADGE_FILL,
+  BADGE_FONT_SIZE,
+  BADGE_GLOW_BLUR,
+  BADGE_NOTE_FONT_SIZE,
+  BADGE_NOTE_LINE_HEIGHT,
+  BADGE_NOTE_PADDING_X,
+  BADGE_STEM,
+  BADGE_STEM_COLOR,
+  BADGE_STEM_FADE,
+  CHIP_BORDER,
+  CHIP_FILL,
+  CanvasFrame,
+  FrameSettings,
+  GRID_OPACITY,
+  LEADER_BORDER,
+  LEADER_GLOW,
+  LEADER_GLOW_BLUR,
+  LEADER_TEXT,
+  MIN_LABEL_BLOCK_HEIGHT,
+  MIN_ROUNDED_BLOCK_HEIGHT,
+  MONO_FONT,
+  PULSE_GLOW_SCALE,
+  RULER_FONT_SIZE,
+  RULER_TICK_HEIGHT,
+  WRAP_MARKER_COLOR,
+  buildCanvasFrame,
+  drawFrame,
+  getBadgeLayout,
+  getBadgeNoteTop,
+  getFrameChips,
+  getGridLines,
+  getWrapMarkerRects,
+  hasRulerLabels,
+} from './canvasRenderer';
+import { formatMovementValue } from './sequences';
+import { getBlockMetrics } from './layout';
+import { canvasToBlob } from './exporter';
+
+export type SnapshotSceneSettings = Omit<FrameSettings, 'width' | 'height'>;
+
+export const MAX_SNAPSHOT_PIXELS = 16384 * 16384;
+
+// Advance of one monospace glyph relative to the font size, used in place
+// of text measurement when laying out the SVG badge
+const MONO_ADVANCE = 0.6;
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Short decimal form keeps the markup small without visible rounding
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+/** Canvas `shadowBlur` expressed as an SVG glow filter. */
+const glowFilter = (id: string, color: string, blur: number) => (
+  `<filter id="${id}" x="-100%" y="-100%" width="300%" height="300%">`
+  + `<feDropShadow dx="0" dy="0" stdDeviation="${num(blur / 2)}" flood-color="${escapeXml(color)}"/>`
+  + '</filter>'
+);
+
+/**
+ * Serializes one frame as a standalone SVG document with the same layout,
+ * colours, tail opacities and scales that drawFrame paints.
+ */
+export const renderFrameSvg = (frame: CanvasFrame) => {
+  const { currentStep, width, height, itemSize, badgeX, badgeY, background, isGridHidden, isBadgeHidden, overlay } = frame;
+  const { blockHeight, fontSize, borderRadius, headBorderWidth } = getBlockMetrics(itemSize);
+  const showLabels = blockHeight >= MIN_LABEL_BLOCK_HEIGHT;
+  const rounded = blockHeight >= MIN_ROUNDED_BLOCK_HEIGHT;
+  const font = escapeXml(MONO_FONT);
+
+  const defs: string[] = [];
+  const body: string[] = [];
+  const pulseFilters = new Map<string, string>();
+
+  if (background) {
+    body.push(`<rect width="${num(width)}" height="${num(height)}" fill="${escapeXml(background)}"/>`);
+  }
+
+  if (!isGridHidden) {
+    const { xs, ys, ringRadii } = getGridLines(frame);
+    body.push(`<g fill="#fff" fill-opacity="${GRID_OPACITY}">`);
+    xs.forEach((x) => body.push(`<rect x="${num(x)}" y="0" width="1" height="${num(height)}"/>`));
+    ys.forEach((y) => body.push(`<rect x="0" y="${num(y)}" width="${num(width)}" height="1"/>`));
+    body.push('</g>');
+    if (ringRadii.length > 0) {
+      body.push(`<g fill="none" stroke="#fff" stroke-opacity="${GRID_OPACITY}" stroke-width="1">`);
+      ringRadii.forEach((r) => body.push(`<circle cx="${num(width / 2)}" cy="${num(height / 2)}" r="${num(r)}"/>`));
+      body.push('</g>');
+    }
+    getWrapMarkerRects(frame).forEach(({ x, y, width: w, height: h }) => {
+      body.push(`<rect x="${num(x)}" y="${num(y)}" width="${num(w)}" height="${num(h)}" fill="${WRAP_MARKER_COLOR}"/>`);
+    });
+  }
+
+  defs.push(glowFilter('leader-glow', LEADER_GLOW, LEADER_GLOW_BLUR));
+  getFrameChips(frame).forEach((chip) => {
+    const { cx, cy, width: w, height: h, scale, opacity, color } = chip;
+    const radius = rounded ? ` rx="${num(borderRadius * scale)}"` : '';
+
+    let filter = '';
+    if (chip.isPulsingHead) {
+      if (!pulseFilters.has(color)) {
+        const id = `pulse-glow-${pulseFilters.size}`;
+        pulseFilters.set(color, id);
+        defs.push(glowFilter(id, color, blockHeight * PULSE_GLOW_SCALE));
+      }
+      filter = ` filter="url(#${pulseFilters.get(color)})"`;
+    } else if (chip.isLeaderHead) {
+      filter = ' filter="url(#leader-glow)"';
+    }
+    body.push(
+      `<rect x="${num(cx - w / 2)}" y="${num(cy - h / 2)}" width="${num(w)}" height="${num(h)}"${radius}`
+      + ` fill="${CHIP_FILL}" opacity="${num(opacity)}"${filter}/>`
+    );
+
+    if (chip.isHead && rounded) {
+      const lw = headBorderWidth * scale;
+      const stroke = chip.isPulsingHead ? color : (chip.isLeaderHead ? LEADER_BORDER : CHIP_BORDER);
+      body.push(
+        `<rect x="${num(cx - w / 2 + lw / 2)}" y="${num(cy - h / 2 + lw / 2)}" width="${num(w - lw)}" height="${num(h - lw)}"${radius}`
+        + ` fill="none" stroke="${escapeXml(stroke)}" stroke-width="${num(lw)}" opacity="${num(opacity)}"/>`
+      );
+    }
+
+    if (showLabels) {
+      body.push(
+        `<text transform="translate(${num(cx)} ${num(cy)}) scale(${num(scale)})" fill="${escapeXml(chip.labelColor)}" opacity="${num(opacity)}"`
+        + ` font-family="${font}" font-size="${num(fontSize)}" font-weight="bold" text-anchor="middle" dominant-baseline="central">`
+        + `${escapeXml(chip.label)}</text>`
+      );
+    }
+  });
+
+  if (overlay && overlay.rulerTicks.length > 0) {
+    const ticks = overlay.rulerTicks;
+    body.push(`<g fill="${escapeXml(overlay.rulerColor)}" opacity="0.8">`);
+    ticks.forEach(({ x }) => body.push(`<rect x="${num(x - 0.5)}" y="0" width="1" height="${RULER_TICK_HEIGHT}"/>`));
+    if (hasRulerLabels(ticks)) {
+      ticks.forEach(({ n, x }) => body.push(
+        `<text x="${num(x)}" y="${RULER_TICK_HEIGHT + 1}" font-family="${font}" font-size="${RULER_FONT_SIZE}" font-weight="bold"`
+        + ` text-anchor="middle" dominant-baseline="hanging">${formatMovementValue(n)}</text>`
+      ));
+    }
+    body.push('</g>');
+  }
+
+  if (!isBadgeHidden) {
+    const label = Math.floor(currentStep).toString();
+    const box = getBadgeLayout(label.length * BADGE_FONT_SIZE * MONO_ADVANCE, badgeX, itemSize, badgeY);
+    defs.push(glowFilter('badge-glow', LEADER_GLOW, BADGE_GLOW_BLUR));
+    body.push(
+      `<rect x="${num(box.left)}" y="${num(box.top)}" width="${num(box.width)}" height="${num(box.height)}" rx="4" fill="${BADGE_FILL}" filter="url(#badge-glow)"/>`,
+      `<rect x="${num(box.left + 0.5)}" y="${num(box.top + 0.5)}" width="${num(box.width - 1)}" height="${num(box.height - 1)}" rx="4" fill="none" stroke="${LEADER_BORDER}" stroke-width="1"/>`,
+      `<text x="${num(badgeX)}" y="${num(box.top + box.height / 2)}" fill="${LEADER_TEXT}" font-family="${font}" font-size="${BADGE_FONT_SIZE}"`
+      + ` font-weight="900" text-anchor="middle" dominant-baseline="central">${label}</text>`
+    );
+    if (badgeY === undefined) {
+      defs.push(
+        '<linearGradient id="badge-stem" x1="0" y1="0" x2="0" y2="1">'
+        + `<stop offset="0" stop-color="${BADGE_STEM_COLOR}"/><stop offset="1" stop-color="${BADGE_STEM_FADE}"/>`
+        + '</linearGradient>'
+      );
+      body.push(`<rect x="${num(badgeX - 0.5)}" y="${num(box.top + box.height)}" width="1" height="${BADGE_STEM}" fill="url(#badge-stem)"/>`);
+    }
+    (overlay?.badgeNotes ?? []).forEach((note, index) => {
+      const noteWidth = [...note].length * BADGE_NOTE_FONT_SIZE * MONO_ADVANCE + BADGE_NOTE_PADDING_X * 2;
+      const noteTop = getBadgeNoteTop(box, index);
+      body.push(
+        `<rect x="${num(badgeX - noteWidth / 2)}" y="${num(noteTop)}" width="${num(noteWidth)}" height="${BADGE_NOTE_LINE_HEIGHT}" rx="3" fill="${BADGE_FILL}"/>`,
+        `<text x="${num(badgeX)}" y="${num(noteTop + BADGE_NOTE_LINE_HEIGHT / 2)}" fill="${LEADER_TEXT}" font-family="${font}" font-size="${BADGE_NOTE_FONT_SIZE}"`
+        + ` font-weight="bold" text-anchor="middle" dominant-baseline="central">${escapeXml(note)}</text>`
+      );
+    });
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width)}" height="${num(height)}" viewBox="0 0 ${num(width)} ${num(height)}">`,
+    `<defs>${defs.join('')}</defs>`,
+    ...body,
+    '</svg>',
+  ].join('\n');
+};
+
+/**
+ * Renders N = currentStep as a single image laid out for a view of
+ * `width` x `height` CSS pixels. PNGs are drawn at `pixelRatio` times that
+ * size, so text and borders stay sharp.
+ */
+export async function exportSnapshot(currentStep: number, options: SnapshotOptions, scene: SnapshotSceneSettings): Promise<Blob> {
+  const { width, height, pixelRatio, format, isGridVisible, isBadgeVisible } = options;
+  const frame: CanvasFrame = {
+    ...buildCanvasFrame(currentStep, { ...scene, width, height }),
+    isGridHidden: !isGridVisible,
+    isBadgeHidden: !isBadgeVisible,
+  };
+
+  if (format === 'svg') {
+    return new Blob([renderFrameSvg(frame)], { type: 'image/svg+xml' });
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * pixelRatio);
+  canvas.height = Math.round(height * pixelRatio);
+  if (canvas.width * canvas.height > MAX_SNAPSHOT_PIXELS) {
+    throw new Error(`${canvas.width}x${canvas.height} is larger than the browser can draw`);
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  ctx.scale(pixelRatio, pixelRatio);
+  drawFrame(ctx, frame);
+  return canvasToBlob(canvas);
+}
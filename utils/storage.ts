@@ -0,0 +1,28 @@
+/**
+ * Reads JSON stored under `key`, passing it through `sanitize`. Falls back
+ * when nothing is stored or the data cannot be read; storage errors are
+ * logged rather than thrown, since localStorage may be full or disabled.
+ */
+export const loadJson = <T>(key: string, label: string, sanitize: (data: unknown) => T, fallback: T): T => {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? sanitize(JSON.parse(stored)) : fallback;
+  } catch (err) {
+    console.error(`Error loading ${label}: ${(err as Error).message}`);
+    return fallback;
+  }
+};
+
+export const saveJson = (key: string, label: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Error saving ${label}: ${(err as Error).message}`);
+  }
+};
+
+/** Sanitizer for a stored list, dropping the items `sanitize` rejects. */
+export const sanitizeList = <T>(sanitize: (raw: unknown) => T | null) => (data: unknown): T[] => {
+  if (!Array.isArray(data)) return [];
+  return data.map(sanitize).filter((item): item is T => item !== null);
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_BPM } from '../constants';
+import { MAX_TAPS, SyncAnchor, SyncSettings, TAP_TIMEOUT_MS, createFakeClock, getSyncedStep, getTapTempo, recordTap } from './syncClock';
+
+const settings: SyncSettings = { bpm: 120, stepsPerSecond: 4, syncEpoch: 10_000 };
+
+describe('createFakeClock', () => {
+  it('only moves when told to', () => {
+    const clock = createFakeClock(500);
+    expect(clock.now()).toBe(500);
+    clock.advance(250);
+    expect(clock.now()).toBe(750);
+    clock.set(0);
+    expect(clock.now()).toBe(0);
+  });
+});
+
+describe('getSyncedStep', () => {
+  it('keeps the anchor N in manual mode', () => {
+    const clock = createFakeClock(1000);
+    const anchor: SyncAnchor = { time: 0, step: 7 };
+    clock.advance(60_000);
+    expect(getSyncedStep('manual', clock.now(), settings, anchor)).toBe(7);
+  });
+
+  it('counts beats from the anchor in bpm mode', () => {
+    const clock = createFakeClock(5000);
+    const anchor: SyncAnchor = { time: clock.now(), step: 3 };
+    expect(getSyncedStep('bpm', clock.now(), settings, anchor)).toBe(3);
+    clock.advance(30_000);
+    expect(getSyncedStep('bpm', clock.now(), settings, anchor)).toBe(63);
+  });
+
+  it('counts steps per second from the anchor in rate mode', () => {
+    const clock = createFakeClock(0);
+    const anchor: SyncAnchor = { time: 0, step: 10 };
+    clock.advance(2500);
+    expect(getSyncedStep('rate', clock.now(), settings, anchor)).toBe(20);
+  });
+
+  it('re-anchors without a jump when the bpm or rate changes', () => {
+    const clock = createFakeClock(0);
+    let anchor: SyncAnchor = { time: 0, step: 0 };
+    clock.advance(10_000);
+    const before = getSyncedStep('bpm', clock.now(), settings, anchor);
+    expect(before).toBe(20);
+
+    // What useStepClock does on a change: anchor at the N shown right now
+    anchor = { time: clock.now(), step: before };
+    const faster = { ...settings, bpm: 240 };
+    expect(getSyncedStep('bpm', clock.now(), faster, anchor)).toBe(20);
+    clock.advance(1000);
+    expect(getSyncedStep('bpm', clock.now(), faster, anchor)).toBe(24);
+
+    anchor = { time: clock.now(), step: 24 };
+    const slower = { ...settings, stepsPerSecond: 0.5 };
+    clock.advance(4000);
+    expect(getSyncedStep('rate', clock.now(), slower, anchor)).toBe(26);
+  });
+
+  it('counts seconds since the epoch and rests at 0 before it', () => {
+    const clock = createFakeClock(4000);
+    const anchor: SyncAnchor = { time: 0, step: 99 };
+    expect(getSyncedStep('epoch', clock.now(), settings, anchor)).toBe(0);
+    clock.set(settings.syncEpoch + 1500);
+    expect(getSyncedStep('epoch', clock.now(), settings, anchor)).toBe(1.5);
+  });
+
+  it('reads wall-clock units directly in the clock modes', () => {
+    const clock = createFakeClock(3 * 60 * 60 * 1000 + 30 * 60 * 1000);
+    const anchor: SyncAnchor = { time: 0, step: 99 };
+    expect(getSyncedStep('hours', clock.now(), settings, anchor)).toBe(3.5);
+    expect(getSyncedStep('minutes', clock.now(), settings, anchor)).toBe(210);
+    expect(getSyncedStep('seconds', clock.now(), settings, anchor)).toBe(12_600);
+    expect(getSyncedStep('ms', clock.now(), settings, anchor)).toBe(12_600_000);
+  });
+});
+
+describe('tap tempo', () => {
+  const tapEvery = (interval: number, count: number, start = 0) => {
+    let taps: number[] = [];
+    for (let i = 0; i < count; i++) taps = recordTap(taps, start + i * interval);
+    return taps;
+  };
+
+  it('needs two taps', () => {
+    expect(getTapTempo([])).toBeNull();
+    expect(getTapTempo(recordTap([], 0))).toBeNull();
+  });
+
+  it('averages the interval between taps', () => {
+    expect(getTapTempo(tapEvery(500, 4))).toBe(120);
+    expect(getTapTempo([0, 400, 1000])).toBe(120);
+  });
+
+  it('starts over after a pause', () => {
+    const taps = recordTap(tapEvery(500, 3), 1000 + TAP_TIMEOUT_MS + 1);
+    expect(taps).toEqual([1000 + TAP_TIMEOUT_MS + 1]);
+  });
+
+  it('keeps only the most recent taps', () => {
+    const taps = tapEvery(250, MAX_TAPS + 4);
+    expect(taps).toHaveLength(MAX_TAPS);
+    expect(taps[0]).toBe(4 * 250);
+  });
+
+  it('caps the tempo of very fast taps', () => {
+    expect(getTapTempo([0, 1])).toBe(MAX_BPM);
+  });
+
+  it('reads the slowest taps the timeout allows', () => {
+    expect(getTapTempo(tapEvery(TAP_TIMEOUT_MS, 2))).toBe(30);
+  });
+});
@@ -0,0 +1,71 @@
+import { OscillatorConfig, SyncMode } from '../types';
+import { MAX_BPM, MIN_BPM } from '../constants';
+
+/** Source of wall-clock time in ms since the Unix epoch; swap in a fake one to drive N by hand. */
+export interface SyncClock {
+  now: () => number;
+}
+
+export const systemClock: SyncClock = { now: () => Date.now() };
+
+/** A clock that only moves when told to. */
+export const createFakeClock = (start = 0) => {
+  let time = start;
+  return {
+    now: () => time,
+    set: (value: number) => { time = value; },
+    advance: (ms: number) => { time += ms; },
+  };
+};
+
+/** Clock time and N at which a rate-based mode was entered; it counts up from there. */
+export interface SyncAnchor {
+  time: number;
+  step: number;
+}
+
+export type SyncSettings = Pick<OscillatorConfig, 'bpm' | 'stepsPerSecond' | 'syncEpoch'>;
+
+const MS_PER_STEP: Record<'seconds' | 'ms' | 'minutes' | 'hours', number> = {
+  ms: 1,
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+};
+
+/** N for a clock-driven sync mode at clock time `time`; manual mode keeps the anchor's N. */
+export const getSyncedStep = (mode: SyncMode, time: number, settings: SyncSettings, anchor: SyncAnchor) => {
+  switch (mode) {
+    case 'manual':
+      return anchor.step;
+    case 'bpm':
+      return anchor.step + ((time - anchor.time) * settings.bpm) / 60000;
+    case 'rate':
+      return anchor.step + ((time - anchor.time) * settings.stepsPerSecond) / 1000;
+    case 'epoch':
+      // Before the event starts N rests at 0
+      return Math.max(0, (time - settings.syncEpoch) / 1000);
+    default:
+      return time / MS_PER_STEP[mode];
+  }
+};
+
+// Taps further apart than this start a new measurement
+export const TAP_TIMEOUT_MS = 2000;
+// Only the most recent taps count, so the tempo can follow a drifting beat
+export const MAX_TAPS = 8;
+
+/** Appends a tap, dropping the history when the previous tap is too old. */
+export const recordTap = (taps: number[], time: number) => {
+  const last = taps[taps.length - 1];
+  const kept = last !== undefined && time - last <= TAP_TIMEOUT_MS ? taps : [];
+  return [...kept, time].slice(-MAX_TAPS);
+};
+
+/** Tempo from the average interval between taps, or null until there are two taps. */
+export const getTapTempo = (taps: number[]) => {
+  if (taps.length < 2) return null;
+  const interval = (taps[taps.length - 1] - taps[0]) / (taps.length - 1);
+  if (interval <= 0) return null;
+  return Math.min(MAX_BPM, Math.max(MIN_BPM, Math.round((60000 / interval) * 10) / 10));
+};
@@ -0,0 +1,53 @@
+import { FalloffType, TailStyle, TailType } from '../types';
+import { FALLOFF_TYPES, TAIL_STYLES } from '../constants';
+import { clampOr } from './math';
+import { createId } from './ids';
+import { loadJson, sanitizeList, saveJson } from './storage';
+
+export const TAIL_STORAGE_KEY = 'harmonic-oscillator.tails';
+
+export const MAX_TAIL_LENGTH = 200;
+export const MAX_TAIL_STRIDE = 10;
+
+const pickFalloff = (value: unknown, fallback: FalloffType) => {
+  return FALLOFF_TYPES.includes(value as FalloffType) ? (value as FalloffType) : fallback;
+};
+
+export const createTailId = () => `custom-${createId()}`;
+
+/** Validates a stored custom tail; missing parameters come from the classic style. */
+export const sanitizeTailStyle = (raw: unknown): TailStyle | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const style = raw as Record<string, unknown>;
+  const name = typeof style.name === 'string' ? style.name.trim() : '';
+  if (!name) return null;
+  const base = TAIL_STYLES[0];
+
+  return {
+    id: typeof style.id === 'string' && style.id ? style.id : createTailId(),
+    name,
+    length: Math.round(clampOr(style.length, 1, MAX_TAIL_LENGTH, base.length)),
+    wrapLength: typeof style.wrapLength === 'number' ? Math.round(clampOr(style.wrapLength, 1, MAX_TAIL_LENGTH, base.length)) : undefined,
+    stride: Math.round(clampOr(style.stride, 1, MAX_TAIL_STRIDE, base.stride)),
+    opacity: clampOr(style.opacity, 0, 1, base.opacity),
+    opacityFalloff: pickFalloff(style.opacityFalloff, base.opacityFalloff),
+    scale: clampOr(style.scale, 0.05, 2, base.scale),
+    scaleFalloff: pickFalloff(style.scaleFalloff, base.scaleFalloff),
+    minScale: clampOr(style.minScale, 0, 2, base.minScale),
+    falloffKnee: clampOr(style.falloffKnee, 0.01, 1, base.falloffKnee),
+    jitter: clampOr(style.jitter, 0, 10, base.jitter),
+    colorShift: clampOr(style.colorShift, -360, 360, base.colorShift),
+    isCustom: true,
+  };
+};
+
+/** Style for a tail id, falling back to the classic tail for unknown ids. */
+export const resolveTailStyle = (tailType: TailType, customTails: TailStyle[]): TailStyle => {
+  return TAIL_STYLES.find((t) => t.id === tailType)
+    ?? customTails.find((t) => t.id === tailType)
+    ?? TAIL_STYLES[0];
+};
+
+export const loadCustomTails = () => loadJson(TAIL_STORAGE_KEY, 'custom tails', sanitizeList(sanitizeTailStyle), []);
+
+export const saveCustomTails = (tails: TailStyle[]) => saveJson(TAIL_STORAGE_KEY, 'custom tails', tails);
@@ -0,0 +1,44 @@
+import { MAX_SPEED, MAX_STEP, MIN_SPEED } from '../constants';
+
+/** Maps a velocity magnitude (steps per ms) to a 0..1 logarithmic slider position. */
+export const speedToSliderPosition = (speed: number) => {
+  const magnitude = Math.min(MAX_SPEED, Math.max(MIN_SPEED, Math.abs(speed)));
+  return Math.log(magnitude / MIN_SPEED) / Math.log(MAX_SPEED / MIN_SPEED);
+};
+
+/** Inverse of speedToSliderPosition; always returns a positive magnitude. */
+export const sliderPositionToSpeed = (position: number) => {
+  return MIN_SPEED * Math.pow(MAX_SPEED / MIN_SPEED, Math.min(1, Math.max(0, position)));
+};
+
+/** Multiplies the velocity magnitude by `factor`, keeping its direction and range. */
+export const scaleSpeed = (speed: number, factor: number) => {
+  const magnitude = Math.min(MAX_SPEED, Math.max(MIN_SPEED, Math.abs(speed) * factor));
+  return (speed < 0 ? -1 : 1) * magnitude;
+};
+
+const COMPACT_UNITS = [
+  { value: 1e9, suffix: 'G' },
+  { value: 1e6, suffix: 'M' },
+  { value: 1e3, suffix: 'k' },
+];
+
+/** Velocity as signed steps per second, e.g. "-2.5k/s". */
+export const formatStepRate = (speed: number) => {
+  const perSecond = speed * 1000;
+  const magnitude = Math.abs(perSecond);
+  const unit = COMPACT_UNITS.find((u) => magnitude >= u.value);
+  const scaled = unit ? magnitude / unit.value : magnitude;
+  const digits = scaled < 10 && scaled % 1 !== 0 ? 1 : 0;
+  return `${perSecond < 0 ? '-' : ''}${scaled.toFixed(digits)}${unit?.suffix ?? ''}/s`;
+};
+
+/**
+ * Upper bound of the scrubber track: MAX_STEP, grown by powers of ten until
+ * it contains N so the thumb never pins to the end.
+ */
+export const getTimelineSpan = (N: number) => {
+  let span = MAX_STEP;
+  while (span <= N && span < Number.MAX_SAFE_INTEGER / 10) span *= 10;
+  return span;
+};
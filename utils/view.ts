@@ -0,0 +1,62 @@
+import { ViewTransform } from '../types';
+import { MAX_VIEW_ZOOM, MIN_VIEW_ZOOM } from '../constants';
+import { clamp } from './math';
+
+export const DEFAULT_VIEW: ViewTransform = { zoom: 1, focus: null, rowOffset: 0 };
+
+// Zoom factor of one zoom command or button press
+export const ZOOM_STEP = 1.25;
+
+// Wheel delta (in pixels) that zooms by one ZOOM_STEP
+const WHEEL_ZOOM_DELTA = 300;
+
+/** What the view is fitted to: the rows and the room across the lanes. */
+export interface ViewBounds {
+  rowCount: number;
+  laneSpan: number; // Height of horizontal lanes, width of vertical ones
+}
+
+export const isDefaultView = (view: ViewTransform) => {
+  return view.zoom === 1 && view.focus === null && view.rowOffset === 0;
+};
+
+/** Slot size that fits every row, before zooming. */
+export const getFittedSlotSize = (bounds: ViewBounds) => bounds.laneSpan / Math.max(1, bounds.rowCount);
+
+/** Rows scrolled past the top lane, limited so the last row stays in view. */
+export const clampRowOffset = (rowOffset: number, zoom: number, bounds: ViewBounds) => {
+  // One extra slot for the N badge above the lanes
+  const maxOffset = bounds.rowCount + 1 - bounds.laneSpan / (getFittedSlotSize(bounds) * zoom);
+  return clamp(rowOffset, 0, Math.max(0, maxOffset));
+};
+
+export const getWheelZoomFactor = (deltaY: number) => Math.pow(ZOOM_STEP, -deltaY / WHEEL_ZOOM_DELTA);
+
+/**
+ * Zooms by `factor`, keeping the row `anchor` pixels across the lanes in
+ * place. The camera position along the lanes is in N units, so it holds
+ * without adjustment.
+ */
+export const zoomView = (view: ViewTransform, factor: number, bounds: ViewBounds, anchor = 0): ViewTransform => {
+  const zoom = clamp(view.zoom * factor, MIN_VIEW_ZOOM, MAX_VIEW_ZOOM);
+  const slotSize = getFittedSlotSize(bounds);
+  const anchorRow = anchor / (slotSize * view.zoom) + view.rowOffset;
+  return { ...view, zoom, rowOffset: clampRowOffset(anchorRow - anchor / (slotSize * zoom), zoom, bounds) };
+};
+
+/**
+ * Drags the view `along` pixels down the lanes and `across` pixels through
+ * the rows. The first drag takes the camera over from follow mode, starting
+ * at `cameraFocus`, the N it was showing at the centre.
+ */
+export const panView = (
+  view: ViewTransform,
+  along: number,
+  across: number,
+  bounds: ViewBounds,
+  cameraFocus: number
+): ViewTransform => {
+  const slotSize = getFittedSlotSize(bounds) * view.zoom;
+  const focus = along === 0 ? view.focus : (view.focus ?? cameraFocus) - along / slotSize;
+  return { ...view, focus, rowOffset: clampRowOffset(view.rowOffset - across / slotSize, view.zoom, bounds) };
+};
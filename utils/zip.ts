@@ -0,0 +1,83 @@
+// Limits of the classic (non-ZIP64) format this writer produces
+const MAX_ZIP_ENTRIES = 0xffff;
+const MAX_ZIP_OFFSET = 0xffffffff;
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Builds an uncompressed (stored) zip archive. Frame images are already
+ * compressed, so deflating them again would only cost time. Archives past
+ * 65535 entries or 4 GB would need ZIP64 and are refused instead.
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`Too many files for a zip archive (${entries.length}, at most ${MAX_ZIP_ENTRIES})`);
+  }
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + size;
+    if (offset > MAX_ZIP_OFFSET) throw new Error('Zip archive would exceed 4 GB; export fewer or smaller frames');
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  if (offset + centralSize > MAX_ZIP_OFFSET) throw new Error('Zip archive would exceed 4 GB; export fewer or smaller frames');
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
@@ -12,12 +12,27 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.CONTROL_ORIGINS': JSON.stringify(env.CONTROL_ORIGINS ?? ''),
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // `vite build --mode lib` builds the embeddable component instead of the app
+      build: mode === 'lib' ? {
+        outDir: 'dist-lib',
+        lib: {
+          entry: {
+            'harmonic-oscillator': path.resolve(__dirname, 'lib.ts'),
+            'harmonic-oscillator-element': path.resolve(__dirname, 'element.ts'),
+          },
+          formats: ['es'],
+        },
+        rollupOptions: {
+          external: [/^react(-dom)?(\/.*)?$/, 'three'],
+        },
+      } : undefined,
     };
 });